@@ -0,0 +1,157 @@
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import { SvnConfig, SvnError, SvnCredentialEntry, SvnCredentials } from './types.js';
+
+const REDACTED = '***';
+
+const passwordCommandCache = new Map<string, Promise<string>>();
+
+/**
+ * Leer las credenciales por realm desde SVN_CREDENTIALS (JSON) y
+ * SVN_CREDENTIALS_FILE (ruta a un fichero JSON con el mismo formato)
+ */
+export function loadCredentialEntries(env: NodeJS.ProcessEnv = process.env): SvnCredentialEntry[] {
+  const entries: SvnCredentialEntry[] = [];
+
+  if (env.SVN_CREDENTIALS) {
+    entries.push(...parseCredentialEntries(env.SVN_CREDENTIALS, 'SVN_CREDENTIALS'));
+  }
+
+  if (env.SVN_CREDENTIALS_FILE) {
+    let content: string;
+    try {
+      content = fs.readFileSync(env.SVN_CREDENTIALS_FILE, 'utf8');
+    } catch (error: any) {
+      throw new SvnError(`Could not read SVN_CREDENTIALS_FILE: ${error.message}`);
+    }
+    entries.push(...parseCredentialEntries(content, 'SVN_CREDENTIALS_FILE'));
+  }
+
+  return entries;
+}
+
+/**
+ * Parsear una lista JSON de credenciales; acepta un array o un objeto indexado por realm
+ */
+export function parseCredentialEntries(value: string, source: string = 'credentials'): SvnCredentialEntry[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new SvnError(`Invalid ${source}: expected JSON`);
+  }
+
+  const list: any[] = Array.isArray(parsed)
+    ? parsed
+    : Object.entries(parsed || {}).map(([realm, entry]) => ({ ...(entry as object), realm }));
+
+  return list.map((entry, index) => {
+    if (!entry || typeof entry.realm !== 'string' || !entry.realm) {
+      throw new SvnError(`Invalid ${source}: entry ${index + 1} has no realm`);
+    }
+    return {
+      realm: entry.realm,
+      username: entry.username,
+      password: entry.password,
+      passwordEnv: entry.passwordEnv,
+      passwordCommand: entry.passwordCommand
+    };
+  });
+}
+
+/**
+ * Elegir la entrada cuyo realm es el prefijo más largo de la URL
+ */
+export function matchCredentialEntry(entries: SvnCredentialEntry[], url: string): SvnCredentialEntry | undefined {
+  const target = url.replace(/\/+$/, '').toLowerCase();
+  let best: SvnCredentialEntry | undefined;
+
+  for (const entry of entries) {
+    const realm = entry.realm.replace(/\/+$/, '').toLowerCase();
+    const matches = target === realm || target.startsWith(`${realm}/`);
+    if (matches && (!best || realm.length > best.realm.replace(/\/+$/, '').length)) {
+      best = entry;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Ejecutar passwordCommand una sola vez por comando y devolver su salida sin el salto final
+ */
+export function runPasswordCommand(command: string, timeout: number = 10000): Promise<string> {
+  let pending = passwordCommandCache.get(command);
+  if (!pending) {
+    pending = new Promise<string>((resolve, reject) => {
+      exec(command, { timeout }, (error, stdout) => {
+        if (error) {
+          reject(new SvnError(`Password command failed: ${error.message.split('\n')[0]}`));
+        } else {
+          resolve(stdout.replace(/\r?\n$/, ''));
+        }
+      });
+    });
+    // No cachear fallos: el siguiente intento vuelve a ejecutar el comando
+    pending.catch(() => passwordCommandCache.delete(command));
+    passwordCommandCache.set(command, pending);
+  }
+  return pending;
+}
+
+/**
+ * Resolver usuario y contraseña para una URL: la entrada de realm más específica
+ * gana y lo que no defina se toma de SVN_USERNAME/SVN_PASSWORD
+ */
+export async function resolveCredentials(
+  config: SvnConfig,
+  url?: string,
+  entries: SvnCredentialEntry[] = loadCredentialEntries()
+): Promise<SvnCredentials> {
+  const entry = url ? matchCredentialEntry(entries, url) : undefined;
+  if (!entry) {
+    return { username: config.username, password: config.password };
+  }
+
+  let password = entry.password;
+  if (password === undefined && entry.passwordEnv) {
+    password = process.env[entry.passwordEnv];
+  }
+  if (password === undefined && entry.passwordCommand) {
+    password = await runPasswordCommand(entry.passwordCommand, config.timeout);
+  }
+
+  return {
+    username: entry.username ?? config.username,
+    password: password ?? config.password
+  };
+}
+
+/**
+ * Indicar si la versión del cliente admite --password-from-stdin (1.10 o superior)
+ */
+export function supportsPasswordFromStdin(version: string | null | undefined): boolean {
+  const match = version?.match(/(\d+)\.(\d+)/);
+  if (!match) return false;
+  const major = parseInt(match[1], 10);
+  const minor = parseInt(match[2], 10);
+  return major > 1 || (major === 1 && minor >= 10);
+}
+
+/**
+ * Ocultar secretos en un texto: el valor de --password, la contraseña de
+ * URLs con usuario (https://user:pw@host) y cualquier secreto conocido
+ */
+export function redactSecrets(text: string, secrets: Array<string | undefined> = []): string {
+  let result = text
+    .replace(/(--password(?:=|\s+))("[^"]*"|'[^']*'|\S+)/g, `$1${REDACTED}`)
+    .replace(/(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+@/gi, `$1${REDACTED}@`);
+
+  for (const secret of secrets) {
+    if (secret) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Niveles de MCP (RFC 5424), de menor a mayor gravedad
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogFields {
+  command?: string;
+  durationMs?: number;
+  exitCode?: number | null;
+  workingCopy?: string;
+  [key: string]: unknown;
+}
+
+export interface LogEntry extends LogFields {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  file?: string | null;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+export type LogForwarder = (entry: LogEntry) => void;
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 3;
+
+/**
+ * Comprobar si un texto es un nivel de log válido
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Ruta por defecto del fichero de log según la plataforma
+ */
+export function defaultLogPath(platform: NodeJS.Platform = process.platform, env: NodeJS.ProcessEnv = process.env): string {
+  const home = env.HOME || env.USERPROFILE || os.homedir();
+
+  if (platform === 'win32') {
+    const base = env.LOCALAPPDATA || path.win32.join(home, 'AppData', 'Local');
+    return path.win32.join(base, 'mcp-svn', 'logs', 'mcp-svn.log');
+  }
+  if (platform === 'darwin') {
+    return path.posix.join(home, 'Library', 'Logs', 'mcp-svn', 'mcp-svn.log');
+  }
+  const stateHome = env.XDG_STATE_HOME || path.posix.join(home, '.local', 'state');
+  return path.posix.join(stateHome, 'mcp-svn', 'mcp-svn.log');
+}
+
+/**
+ * Logger con niveles que escribe líneas JSON con rotación por tamaño y
+ * reenvía las entradas al cliente MCP según el nivel que éste haya pedido
+ */
+export class Logger {
+  private level: LogLevel;
+  private file: string | null;
+  private maxBytes: number;
+  private maxFiles: number;
+  private clientLevel: LogLevel | null = null;
+  private forwarder: LogForwarder | null = null;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level || 'info';
+    this.file = options.file === undefined ? defaultLogPath() : options.file;
+    this.maxBytes = options.maxBytes || DEFAULT_MAX_BYTES;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  }
+
+  /**
+   * Crear el logger desde SVN_LOG_LEVEL, SVN_LOG_FILE ('off' lo desactiva),
+   * SVN_LOG_MAX_SIZE y SVN_LOG_MAX_FILES
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Logger {
+    const level = env.SVN_LOG_LEVEL?.toLowerCase();
+    const file = env.SVN_LOG_FILE?.trim();
+    const maxBytes = parseInt(env.SVN_LOG_MAX_SIZE || '', 10);
+    const maxFiles = parseInt(env.SVN_LOG_MAX_FILES || '', 10);
+
+    return new Logger({
+      level: isLogLevel(level) ? level : 'info',
+      file: file === undefined || file === '' ? undefined : /^(off|none|false)$/i.test(file) ? null : file,
+      maxBytes: maxBytes > 0 ? maxBytes : undefined,
+      maxFiles: maxFiles >= 0 ? maxFiles : undefined
+    });
+  }
+
+  get logFile(): string | null {
+    return this.file;
+  }
+
+  /**
+   * Registrar la función que envía las entradas al cliente (notifications/message)
+   */
+  setForwarder(forwarder: LogForwarder | null): void {
+    this.forwarder = forwarder;
+  }
+
+  /**
+   * Nivel pedido por el cliente con logging/setLevel; hasta entonces no se reenvía nada
+   */
+  setClientLevel(level: LogLevel | null): void {
+    this.clientLevel = level;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warning(message: string, fields?: LogFields): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    const toFile = this.file !== null && atLeast(level, this.level);
+    const toClient = this.forwarder !== null && this.clientLevel !== null && atLeast(level, this.clientLevel);
+    if (!toFile && !toClient) return;
+
+    const entry: LogEntry = { timestamp: new Date().toISOString(), level, message, ...fields };
+
+    if (toFile) {
+      this.write(entry);
+    }
+    if (toClient) {
+      try {
+        this.forwarder!(entry);
+      } catch {
+        // Un cliente desconectado no debe romper la operación en curso
+      }
+    }
+  }
+
+  /**
+   * Añadir la entrada al fichero, rotándolo antes si supera el tamaño máximo
+   */
+  private write(entry: LogEntry): void {
+    const file = this.file!;
+    const line = `${JSON.stringify(entry)}${os.EOL}`;
+
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+      if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) {
+        this.rotate(file);
+      }
+      fs.appendFileSync(file, line);
+    } catch (err: any) {
+      // Avisar una sola vez y dejar de escribir en lugar de repetir el error en cada llamada
+      console.error(`Logging to ${file} disabled: ${err.message}`);
+      this.file = null;
+    }
+  }
+
+  private rotate(file: string): void {
+    if (this.maxFiles === 0) {
+      fs.rmSync(file, { force: true });
+      return;
+    }
+    fs.rmSync(`${file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${file}.${index}`)) {
+        fs.renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+      }
+    }
+    fs.renameSync(file, `${file}.1`);
+  }
+}
+
+function atLeast(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Logger compartido por el servidor, el servicio y las utilidades
+ */
+export const logger = Logger.fromEnv();
@@ -0,0 +1,229 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Herramientas que cambian el repositorio, la copia de trabajo o ficheros locales,
+// o que dan acceso a directorios nuevos (registrar una copia de trabajo)
+export const MUTATING_TOOLS = [
+  'svn_checkout',
+  'svn_update',
+  'svn_add',
+  'svn_commit',
+  'svn_delete',
+  'svn_revert',
+  'svn_cleanup',
+  'svn_clear_credentials',
+  'svn_branch_create',
+  'svn_tag_create',
+  'svn_merge',
+  'svn_switch',
+  'svn_relocate',
+  'svn_resolve',
+  'svn_propset',
+  'svn_propdel',
+  'svn_lock',
+  'svn_unlock',
+  'svn_copy',
+  'svn_move',
+  'svn_import',
+  'svn_export',
+  'svn_batch',
+  'svn_working_copy_add'
+] as const;
+
+// Argumentos con los que una herramienta que solo lee pasa a modificar algo
+export const MUTATING_ARGUMENTS: Record<string, readonly string[]> = {
+  svn_working_copies: ['discoverRoot']
+};
+
+// Herramientas que piden confirmación con SVN_REQUIRE_CONFIRMATION=true: lo que borran no se recupera con svn
+export const DESTRUCTIVE_TOOLS = ['svn_delete', 'svn_revert', 'svn_clear_credentials', 'svn_propdel'] as const;
+
+export interface SvnPolicy {
+  readOnly: boolean;
+  allowedTools?: string[];
+  deniedTools: string[];
+  confirmTools: string[];
+}
+
+const CONFIRMATION_TTL = 5 * 60 * 1000;
+
+/**
+ * Separar una lista de variable de entorno (comas o saltos de línea)
+ */
+export function parseList(value?: string): string[] {
+  return (value || '').split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+function isEnabled(value?: string): boolean {
+  return /^(1|true|yes|on)$/i.test(value?.trim() || '');
+}
+
+/**
+ * Leer la política del servidor: SVN_READ_ONLY, SVN_ALLOWED_TOOLS,
+ * SVN_DENIED_TOOLS y SVN_REQUIRE_CONFIRMATION ('true' o una lista de herramientas)
+ */
+export function loadPolicy(env: NodeJS.ProcessEnv = process.env): SvnPolicy {
+  const allowed = parseList(env.SVN_ALLOWED_TOOLS);
+  const confirmation = env.SVN_REQUIRE_CONFIRMATION?.trim() || '';
+
+  return {
+    readOnly: isEnabled(env.SVN_READ_ONLY),
+    allowedTools: allowed.length > 0 ? allowed : undefined,
+    deniedTools: parseList(env.SVN_DENIED_TOOLS),
+    confirmTools: isEnabled(confirmation)
+      ? [...DESTRUCTIVE_TOOLS]
+      : /^(0|false|no|off)?$/i.test(confirmation) ? [] : parseList(confirmation)
+  };
+}
+
+/**
+ * Comprobar si un nombre de herramienta encaja con una entrada de lista (admite *)
+ */
+function matchesToolName(name: string, pattern: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+export function isMutatingTool(name: string): boolean {
+  return (MUTATING_TOOLS as readonly string[]).includes(name);
+}
+
+/**
+ * Decidir si una herramienta se registra: solo lectura quita las que modifican,
+ * la lista de permitidas deja fuera el resto y la de denegadas siempre gana
+ */
+export function isToolEnabled(policy: SvnPolicy, name: string): boolean {
+  if (policy.readOnly && isMutatingTool(name)) return false;
+  if (policy.deniedTools.some(pattern => matchesToolName(name, pattern))) return false;
+  if (policy.allowedTools && !policy.allowedTools.some(pattern => matchesToolName(name, pattern))) return false;
+  return true;
+}
+
+/**
+ * Devolver el primer argumento que el modo solo lectura no permite en una llamada
+ */
+export function findReadOnlyViolation(policy: SvnPolicy, name: string, args: Record<string, unknown>): string | undefined {
+  if (!policy.readOnly) return undefined;
+  return (MUTATING_ARGUMENTS[name] || []).find(argument => args[argument] !== undefined);
+}
+
+export function requiresConfirmation(policy: SvnPolicy, name: string): boolean {
+  return policy.confirmTools.some(pattern => matchesToolName(name, pattern));
+}
+
+/**
+ * Convertir un glob de rutas del repositorio en expresión regular:
+ * * y ? no cruzan '/', ** abarca cualquier número de segmentos y
+ * un '/**' final encaja con todo lo que hay dentro del directorio
+ */
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob.trim().replace(/^\^?\/+/, '').replace(/\/+$/, '');
+  let source = '';
+
+  for (let index = 0; index < normalized.length; index++) {
+    const char = normalized[index];
+    if (char === '*' && normalized[index + 1] === '*') {
+      const atStart = index === 0 || normalized[index - 1] === '/';
+      const atEnd = index + 2 === normalized.length;
+      const beforeSlash = normalized[index + 2] === '/';
+      if (atStart && beforeSlash) {
+        // **/ : cero o más directorios
+        source += '(?:.*/)?';
+        index += 2;
+      } else if (atStart && atEnd && index > 0) {
+        // /** final: cualquier cosa dentro, pero no el propio directorio
+        source += '.+';
+        index += 1;
+      } else {
+        source += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parte literal de un glob antes del primer comodín (p.ej. 'tags' para 'tags/**')
+ */
+function literalPrefix(glob: string): string {
+  const segments = glob.trim().replace(/^\^?\/+/, '').replace(/\/+$/, '').split('/');
+  const literal: string[] = [];
+  for (const segment of segments) {
+    if (/[*?]/.test(segment)) break;
+    literal.push(segment);
+  }
+  return literal.join('/');
+}
+
+/**
+ * Devolver el patrón protegido que afecta a una ruta del repositorio (relativa a la raíz).
+ * Una ruta está protegida si encaja con el patrón o si contiene lo que el patrón
+ * protege: borrar o confirmar 'tags' entero también toca 'tags/**'.
+ */
+export function findProtectedPattern(repositoryPath: string, patterns: string[]): string | undefined {
+  const target = repositoryPath.replace(/^\^?\/+/, '').replace(/\/+$/, '');
+
+  return patterns.find(pattern => {
+    if (globToRegExp(pattern).test(target)) return true;
+    const prefix = literalPrefix(pattern);
+    return target === '' || target === prefix || prefix.startsWith(`${target}/`);
+  });
+}
+
+/**
+ * Tokens de confirmación de un solo uso, ligados a la herramienta y a sus argumentos
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, { fingerprint: string; expires: number }>();
+
+  constructor(private ttl: number = CONFIRMATION_TTL) {}
+
+  get ttlMinutes(): number {
+    return Math.round(this.ttl / 60000);
+  }
+
+  issue(tool: string, args: Record<string, unknown>): string {
+    this.prune();
+    const token = randomBytes(8).toString('hex');
+    this.pending.set(token, { fingerprint: fingerprint(tool, args), expires: Date.now() + this.ttl });
+    return token;
+  }
+
+  /**
+   * Consumir un token: solo vale una vez, antes de caducar y con los mismos argumentos
+   */
+  consume(tool: string, args: Record<string, unknown>, token: string): boolean {
+    this.prune();
+    const entry = this.pending.get(token);
+    if (!entry || entry.fingerprint !== fingerprint(tool, args)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expires <= now) this.pending.delete(token);
+    }
+  }
+}
+
+function fingerprint(tool: string, args: Record<string, unknown>): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  };
+  return createHash('sha256').update(JSON.stringify([tool, canonical(args)])).digest('hex');
+}
@@ -0,0 +1,222 @@
+import { spawn, SpawnOptions } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ResolvedExecutable {
+  file: string;
+  viaCmd: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: string;
+  timeout?: number;
+  encoding?: BufferEncoding;
+  platform?: NodeJS.Platform;
+  signal?: AbortSignal;
+  onStdoutLine?: (line: string) => void;
+  // Dejar de leer stdout a partir de estos bytes y terminar el proceso
+  maxStdoutBytes?: number;
+}
+
+export interface RunCommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+  truncated: boolean;
+}
+
+// Metacaracteres de cmd.exe que hay que escapar con ^ (mismo conjunto que cross-spawn)
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Buscar una variable de entorno sin distinguir mayúsculas (Path/PATH en Windows)
+ */
+function getEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  const key = Object.keys(env).find(candidate => candidate.toUpperCase() === name);
+  return key ? env[key] : undefined;
+}
+
+/**
+ * Resolver el ejecutable a lanzar. En Windows se busca en PATH con PATHEXT
+ * para saber si es un svn.exe (se lanza directamente) o un wrapper .bat/.cmd,
+ * que solo puede ejecutarse a través de cmd.exe.
+ */
+export function resolveExecutable(
+  command: string,
+  options: { platform?: NodeJS.Platform; env?: NodeJS.ProcessEnv } = {}
+): ResolvedExecutable {
+  const platform = options.platform || process.platform;
+  const env = options.env || process.env;
+  const isCmdScript = (file: string) => /\.(bat|cmd)$/i.test(file);
+
+  if (platform !== 'win32') {
+    return { file: command, viaCmd: false };
+  }
+
+  const extensions = path.extname(command)
+    ? ['']
+    : (getEnv(env, 'PATHEXT') || '.COM;.EXE;.BAT;.CMD').split(';').filter(Boolean);
+  const directories = /[\\/]/.test(command)
+    ? ['']
+    : (getEnv(env, 'PATH') || '').split(';').filter(Boolean);
+
+  for (const directory of directories) {
+    for (const extension of extensions) {
+      // Windows no distingue mayúsculas, así que .EXE y .exe son el mismo fichero
+      const file = command + extension.toLowerCase();
+      const candidate = directory ? path.join(directory, file) : file;
+      if (fs.existsSync(candidate)) {
+        return { file: candidate, viaCmd: isCmdScript(candidate) };
+      }
+    }
+  }
+
+  return { file: command, viaCmd: isCmdScript(command) };
+}
+
+/**
+ * Citar un argumento según las reglas de CommandLineToArgvW
+ */
+export function quoteWindowsArgument(arg: string): string {
+  if (arg && !/[\s"]/.test(arg)) {
+    return arg;
+  }
+  return `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\+)$/, '$1$1')}"`;
+}
+
+/**
+ * Citar un argumento para pasarlo a un .bat/.cmd a través de cmd.exe /s /c
+ */
+export function quoteCmdArgument(arg: string): string {
+  if (/[\r\n]/.test(arg)) {
+    throw new Error('Arguments with line breaks cannot be passed to a .bat/.cmd wrapper; point SVN_PATH at svn.exe');
+  }
+  return quoteWindowsArgument(arg).replace(CMD_META_CHARS, '^$1');
+}
+
+/**
+ * Construir la línea que recibe cmd.exe /d /s /c para lanzar un wrapper .bat/.cmd
+ */
+export function buildCmdCommandLine(file: string, args: string[]): string {
+  const commandLine = [file.replace(CMD_META_CHARS, '^$1'), ...args.map(quoteCmdArgument)].join(' ');
+  return `"${commandLine}"`;
+}
+
+/**
+ * Formatear un comando para mostrarlo en respuestas y logs (no se ejecuta)
+ */
+export function formatCommandLine(file: string, args: string[]): string {
+  const display = (arg: string) => (arg && /^[\w@%+=:,./^-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`);
+  return [file, ...args].map(display).join(' ');
+}
+
+/**
+ * Ejecutar un comando con argv exacto, sin shell. Los argumentos llegan al
+ * proceso tal cual en cualquier plataforma; solo los wrappers .bat/.cmd de
+ * Windows pasan por cmd.exe, con cada argumento citado y escapado.
+ */
+export function runCommand(command: string, args: string[], options: RunCommandOptions = {}): Promise<RunCommandResult> {
+  const platform = options.platform || process.platform;
+  const executable = resolveExecutable(command, { platform, env: options.env });
+
+  let file = executable.file;
+  let finalArgs = args;
+  const spawnOptions: SpawnOptions = {
+    cwd: options.cwd,
+    env: options.env,
+    shell: false,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    windowsHide: true
+  };
+
+  if (executable.viaCmd) {
+    file = getEnv(options.env || process.env, 'COMSPEC') || 'cmd.exe';
+    finalArgs = ['/d', '/s', '/c', buildCmdCommandLine(executable.file, args)];
+    spawnOptions.windowsVerbatimArguments = true;
+  }
+
+  return new Promise((resolve, reject) => {
+    const childProcess = spawn(file, finalArgs, spawnOptions);
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let timedOut = false;
+    let cancelled = false;
+    let truncated = false;
+    let stdoutBytes = 0;
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          childProcess.kill('SIGTERM');
+        }, options.timeout)
+      : undefined;
+
+    // Cancelar desde fuera (p.ej. notifications/cancelled de MCP) termina el proceso hijo
+    const onAbort = () => {
+      cancelled = true;
+      childProcess.kill('SIGTERM');
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    // La salida se entrega línea a línea mientras llega, además de acumularse entera
+    const decoder = new StringDecoder(options.encoding || 'utf8');
+    let pendingLine = '';
+    const emitLines = (text: string, final: boolean) => {
+      if (!options.onStdoutLine) return;
+      const lines = (pendingLine + text).split(/\r?\n/);
+      pendingLine = final ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (line) options.onStdoutLine(line);
+      }
+    };
+
+    childProcess.stdout?.on('data', (data: Buffer) => {
+      if (truncated) return;
+      // Con límite, lo que sobra no se guarda y el proceso no sigue escribiendo
+      if (options.maxStdoutBytes !== undefined && stdoutBytes + data.length > options.maxStdoutBytes) {
+        data = data.subarray(0, options.maxStdoutBytes - stdoutBytes);
+        truncated = true;
+        childProcess.kill('SIGTERM');
+      }
+      stdoutBytes += data.length;
+      stdout.push(data);
+      emitLines(decoder.write(data), false);
+    });
+    childProcess.stderr?.on('data', (data: Buffer) => stderr.push(data));
+
+    // stdin se cierra siempre para que el proceso nunca quede esperando entrada
+    childProcess.stdin?.on('error', () => undefined);
+    childProcess.stdin?.end(options.input);
+
+    childProcess.on('close', (code) => {
+      cleanup();
+      emitLines(decoder.end(), true);
+      resolve({
+        code,
+        stdout: Buffer.concat(stdout).toString(options.encoding || 'utf8'),
+        stderr: Buffer.concat(stderr).toString(options.encoding || 'utf8'),
+        timedOut,
+        cancelled,
+        truncated
+      });
+    });
+
+    childProcess.on('error', (error) => {
+      cleanup();
+      reject(error);
+    });
+  });
+}
@@ -6,6 +6,20 @@ export interface SvnConfig {
   username?: string;
   password?: string;
   timeout?: number;
+  protectedPaths?: string[];
+}
+
+export interface SvnCredentialEntry {
+  realm: string;
+  username?: string;
+  password?: string;
+  passwordEnv?: string;
+  passwordCommand?: string;
+}
+
+export interface SvnCredentials {
+  username?: string;
+  password?: string;
 }
 
 export interface SvnResponse<T = any> {
@@ -15,12 +29,34 @@ export interface SvnResponse<T = any> {
   command: string;
   workingDirectory: string;
   executionTime?: number;
+  interruption?: SvnInterruption;
+}
+
+export interface SvnProgress {
+  processed: number;
+  action?: string;
+  path?: string;
+}
+
+export interface SvnProgressOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SvnProgress) => void;
+}
+
+export interface SvnInterruption {
+  reason: 'cancelled' | 'timeout';
+  processed: number;
+  recent: SvnProgress[];
+  revision?: number;
+  workingCopyLocked?: boolean;
 }
 
 export class SvnError extends Error {
   code?: number;
   stderr?: string;
+  stdout?: string;
   command?: string;
+  interrupted?: 'cancelled' | 'timeout';
 
   constructor(message: string) {
     super(message);
@@ -28,6 +64,21 @@ export class SvnError extends Error {
   }
 }
 
+export interface SvnWorkingCopy {
+  name: string;
+  path: string;
+  source: 'default' | 'config' | 'discovered' | 'added';
+  active: boolean;
+  root?: string;
+}
+
+export interface SvnResolvedPath {
+  path: string;
+  relativePath: string;
+  exists: boolean;
+  kind?: 'file' | 'dir';
+}
+
 // ===== TIPOS DE INFORMACIÓN DEL REPOSITORIO =====
 
 export interface SvnInfo {
@@ -49,11 +100,22 @@ export interface SvnInfo {
 
 export interface SvnStatus {
   path: string;
-  status: 'unversioned' | 'added' | 'deleted' | 'modified' | 'replaced' | 'merged' | 'conflicted' | 'ignored' | 'none' | 'normal' | 'external' | 'incomplete';
+  status: 'unversioned' | 'added' | 'deleted' | 'modified' | 'replaced' | 'merged' | 'conflicted' | 'ignored' | 'none' | 'normal' | 'external' | 'incomplete' | 'missing' | 'obstructed';
   revision?: number;
   changedRev?: number;
   changedAuthor?: string;
   changedDate?: string;
+  propStatus?: 'none' | 'normal' | 'modified' | 'conflicted';
+  treeConflicted?: boolean;
+  copied?: boolean;
+  switched?: boolean;
+  fileExternal?: boolean;
+  workingCopyLocked?: boolean;
+  lock?: SvnLock;
+  outOfDate?: boolean;
+  remoteStatus?: string;
+  remotePropStatus?: string;
+  remoteLock?: SvnLock;
 }
 
 export interface SvnLogEntry {
@@ -71,6 +133,46 @@ export interface SvnChangedPath {
   copyFromRev?: number;
 }
 
+export interface SvnListEntry {
+  name: string;
+  kind: 'file' | 'directory';
+  size?: number;
+  lastChangedRev: number;
+  lastChangedAuthor: string;
+  lastChangedDate: string;
+}
+
+export interface SvnListOptions {
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+  revision?: number | 'HEAD' | 'BASE' | 'COMMITTED' | 'PREV';
+}
+
+export interface SvnCatOptions {
+  revision?: number | 'HEAD' | 'BASE' | 'COMMITTED' | 'PREV';
+  maxBytes?: number;
+}
+
+export interface SvnPage<T> {
+  items: T[];
+  offset: number;
+  total: number;
+  nextCursor?: string;
+}
+
+export interface SvnDiffSection {
+  path: string;
+  text: string;
+}
+
+export interface SvnCatResult {
+  path: string;
+  content: string;
+  size: number;
+  truncated: boolean;
+  binary: boolean;
+  mimeType?: string;
+}
+
 // ===== TIPOS DE DIFERENCIAS =====
 
 export interface SvnDiff {
@@ -79,6 +181,25 @@ export interface SvnDiff {
   oldRevision?: number;
   newRevision?: number;
   hunks: SvnDiffHunk[];
+  changeType?: 'added' | 'deleted' | 'modified';
+  binary?: boolean;
+  propertyChanges?: SvnDiffPropertyChange[];
+  additions?: number;
+  deletions?: number;
+}
+
+export interface SvnDiffPropertyChange {
+  name: string;
+  action: 'added' | 'modified' | 'deleted';
+  oldValue?: string;
+  newValue?: string;
+}
+
+export interface SvnDiffSummaryEntry {
+  path: string;
+  item: 'added' | 'deleted' | 'modified' | 'replaced' | 'none';
+  props: 'none' | 'modified';
+  kind: 'file' | 'directory';
 }
 
 export interface SvnDiffHunk {
@@ -106,6 +227,15 @@ export interface SvnBranch {
   lastChangedDate: string;
 }
 
+export interface SvnRepositoryLayout {
+  repositoryRoot: string;
+  projectRoot: string;
+  trunkUrl: string;
+  branchesUrl: string;
+  tagsUrl: string;
+  currentBranch?: string;
+}
+
 export interface SvnMergeInfo {
   sourcePath: string;
   mergedRevisions: number[];
@@ -125,6 +255,13 @@ export interface SvnPropertyList {
   properties: Record<string, string>;
 }
 
+export interface SvnPropertyOptions {
+  recursive?: boolean;
+  revprop?: boolean;
+  revision?: number;
+  force?: boolean;
+}
+
 // ===== TIPOS DE LOCK =====
 
 export interface SvnLock {
@@ -136,6 +273,21 @@ export interface SvnLock {
   expires?: string;
 }
 
+export interface SvnLockEntry extends SvnLock {
+  // held: this working copy holds the lock; other: someone else holds it;
+  // stolen/broken: the local token is no longer valid in the repository
+  state: 'held' | 'other' | 'stolen' | 'broken';
+}
+
+export interface SvnLockOptions {
+  comment?: string;
+  steal?: boolean;
+}
+
+export interface SvnUnlockOptions {
+  force?: boolean;
+}
+
 // ===== TIPOS DE BLAME/ANNOTATION =====
 
 export interface SvnBlameLine {
@@ -151,6 +303,12 @@ export interface SvnBlame {
   lines: SvnBlameLine[];
 }
 
+export interface SvnBlameOptions {
+  revision?: number | 'HEAD' | 'BASE' | 'COMMITTED' | 'PREV';
+  startLine?: number;
+  endLine?: number;
+}
+
 // ===== TIPOS PARA OPERACIONES DE ARCHIVOS =====
 
 export interface SvnAddOptions {
@@ -161,7 +319,7 @@ export interface SvnAddOptions {
   parents?: boolean;
 }
 
-export interface SvnCommitOptions {
+export interface SvnCommitOptions extends SvnProgressOptions {
   message: string;
   file?: string;
   force?: boolean;
@@ -170,14 +328,14 @@ export interface SvnCommitOptions {
   targets?: string[];
 }
 
-export interface SvnUpdateOptions {
+export interface SvnUpdateOptions extends SvnProgressOptions {
   revision?: number | 'HEAD' | 'BASE' | 'COMMITTED' | 'PREV';
   force?: boolean;
   ignoreExternals?: boolean;
   acceptConflicts?: 'postpone' | 'base' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full';
 }
 
-export interface SvnCheckoutOptions {
+export interface SvnCheckoutOptions extends SvnProgressOptions {
   revision?: number | 'HEAD';
   depth?: 'empty' | 'files' | 'immediates' | 'infinity';
   force?: boolean;
@@ -210,6 +368,26 @@ export interface SvnMergeOptions {
   ignoreAncestry?: boolean;
   recordOnly?: boolean;
   acceptConflicts?: 'postpone' | 'base' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full';
+  revisions?: number[];
+  revisionRange?: string;
+  reintegrate?: boolean;
+}
+
+export interface SvnMergeChange {
+  path: string;
+  // Sin acción de texto cuando solo cambian propiedades
+  action?: 'added' | 'deleted' | 'updated' | 'merged' | 'replaced' | 'conflicted' | 'existed';
+  propertyAction?: 'updated' | 'merged' | 'conflicted';
+  treeConflict?: boolean;
+}
+
+export interface SvnMergeResult {
+  dryRun: boolean;
+  changes: SvnMergeChange[];
+  conflicts: string[];
+  // Rutas en las que solo se registra svn:mergeinfo (no cuentan como archivos cambiados)
+  mergeinfoPaths: string[];
+  output: string;
 }
 
 // ===== TIPOS PARA SWITCH =====
@@ -221,6 +399,13 @@ export interface SvnSwitchOptions {
   acceptConflicts?: 'postpone' | 'base' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full';
 }
 
+export interface SvnSwitchResult {
+  previousUrl: string;
+  currentUrl: string;
+  revision: number;
+  output: string;
+}
+
 // ===== TIPOS PARA RESOLVE =====
 
 export interface SvnResolveOptions {
@@ -228,6 +413,16 @@ export interface SvnResolveOptions {
   recursive?: boolean;
 }
 
+export interface SvnConflict {
+  path: string;
+  kinds: ('text' | 'property' | 'tree')[];
+  mineFile?: string;
+  baseFile?: string;
+  theirsFile?: string;
+  propertyRejectFile?: string;
+  treeConflictDescription?: string;
+}
+
 // ===== TIPOS PARA IMPORT/EXPORT =====
 
 export interface SvnImportOptions {
@@ -266,16 +461,28 @@ export interface SvnBranchComparison {
   differences: SvnLogEntry[];
   mergeInfo: SvnMergeInfo;
   conflictingFiles: string[];
+  commonAncestor?: SvnBranchOrigin;
+  diffSummary: SvnDiffSummaryEntry[];
+}
+
+export interface SvnBranchOrigin {
+  path: string;
+  revision: number;
 }
 
 export interface SvnHealthCheck {
   status: 'healthy' | 'warning' | 'error';
   issues: SvnHealthIssue[];
+  svnAvailable: boolean;
+  version?: string;
   workingCopyValid: boolean;
   repositoryAccessible: boolean;
   conflictsDetected: boolean;
   uncommittedChanges: boolean;
   lastUpdate: string;
+  minRevision?: number;
+  maxRevision?: number;
+  headRevision?: number;
 }
 
 export interface SvnHealthIssue {
@@ -299,6 +506,23 @@ export interface SvnBatchResult {
   success: boolean;
   error?: string;
   result?: any;
+  command?: string;
+  skipped?: boolean;
+  rolledBack?: boolean;
+}
+
+export interface SvnBatchOptions {
+  onError?: 'stop' | 'continue';
+  rollback?: boolean;
+}
+
+export interface SvnBatchSummary {
+  results: SvnBatchResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  rolledBack: boolean;
+  rollbackErrors: string[];
 }
 
 // ===== CONSTANTES =====
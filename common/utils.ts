@@ -1,30 +1,14 @@
-import { spawn, SpawnOptions } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SvnConfig, SvnResponse, SvnError, SvnInfo, SvnStatus, SvnLogEntry, SVN_STATUS_CODES } from './types.js';
-import * as os from 'os'; 
+import { SvnConfig, SvnResponse, SvnError, SvnInfo, SvnStatus, SvnLogEntry, SvnChangedPath, SvnBlameLine, SvnListEntry, SvnRepositoryLayout, SvnMergeChange, SvnMergeResult, SvnConflict, SvnDiff, SvnDiffHunk, SvnPropertyList, SvnLock, SvnLockEntry, SvnBatchOperation, SvnWorkingCopySummary, SvnDiffSummaryEntry, SvnBranchOrigin, SvnHealthIssue, SvnResolvedPath, SvnCredentials, SvnPage, SvnDiffSection } from './types.js';
+import { loadCredentialEntries, resolveCredentials, supportsPasswordFromStdin, redactSecrets } from './credentials.js';
+import { runCommand, formatCommandLine, RunCommandResult } from './runner.js';
+import { logger } from './logger.js';
+import { parseList } from './policy.js';
+import { XmlElement, parseXml, xmlChild, xmlChildren, xmlChildText, xmlDescendants } from './xml.js';
 import { log } from 'console';
 
-export function logToFileParam(message: string, param: string): void {
-  const logDir = 'C:\\Logs';
-  const logFile = path.join(logDir, 'mcp_svn.log');
-  try {
-    if (!fs.existsSync(logDir)) {
-      fs.mkdirSync(logDir, { recursive: true });
-    }
-    const timestamp = new Date().toISOString();
-    fs.appendFileSync(logFile, `[${timestamp}] ${message}: ${param}${os.EOL}`);
-  } catch (err) {
-    // For debugging: print error to stderr
-    console.error('Failed to write to log file:', err);
-  }
-}
-
-export function logToFile(m: string): void {
-  logToFileParam(m, "");
-}
-
 /**
  * Crear configuración de SVN desde variables de entorno y parámetros
  */
@@ -34,7 +18,8 @@ export function createSvnConfig(overrides: Partial<SvnConfig> = {}): SvnConfig {
     workingDirectory: overrides.workingDirectory || process.env.SVN_WORKING_DIRECTORY || process.cwd(),
     username: overrides.username || process.env.SVN_USERNAME,
     password: overrides.password || process.env.SVN_PASSWORD,
-    timeout: overrides.timeout || parseInt(process.env.SVN_TIMEOUT || '30000', 10)
+    timeout: overrides.timeout || parseInt(process.env.SVN_TIMEOUT || '30000', 10),
+    protectedPaths: overrides.protectedPaths || parseList(process.env.SVN_PROTECTED_PATHS)
   };
 }
 
@@ -63,59 +48,196 @@ export async function isWorkingCopy(workingDirectory: string): Promise<boolean>
 }
 
 /**
- * Normalizar rutas para Windows
+ * Parsear la lista de working copies de SVN_WORKING_COPIES: un objeto JSON
+ * {"nombre": "ruta"} o pares nombre=ruta separados por ';' o saltos de línea.
+ * El nombre 'default' está reservado para SVN_WORKING_DIRECTORY. Con onInvalid,
+ * las entradas mal formadas se notifican y se saltan en vez de lanzar
+ */
+export function parseWorkingCopyList(value: string | undefined, onInvalid?: (error: SvnError) => void): Record<string, string> {
+  if (!value || !value.trim()) return {};
+  const invalid = (error: SvnError) => {
+    if (!onInvalid) throw error;
+    onInvalid(error);
+  };
+
+  const result: Record<string, string> = {};
+  const add = (name: string, wcPath: unknown) => {
+    if (name === 'default') {
+      invalid(new SvnError(`SVN_WORKING_COPIES cannot redefine 'default', which is SVN_WORKING_DIRECTORY`));
+    } else if (typeof wcPath !== 'string' || !wcPath.trim()) {
+      invalid(new SvnError(`Invalid SVN_WORKING_COPIES entry '${name}', expected a path`));
+    } else {
+      result[name] = wcPath.trim();
+    }
+  };
+
+  if (/^[{[]/.test(value.trim())) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error: any) {
+      invalid(new SvnError(`Invalid SVN_WORKING_COPIES JSON: ${error.message}`));
+      return {};
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      invalid(new SvnError('Invalid SVN_WORKING_COPIES JSON: expected an object of name/path pairs'));
+      return {};
+    }
+    for (const [name, wcPath] of Object.entries(parsed)) {
+      add(name, wcPath);
+    }
+    return result;
+  }
+
+  for (const item of value.split(/[;\n]/)) {
+    const separator = item.indexOf('=');
+    if (!item.trim()) continue;
+    if (separator <= 0) {
+      invalid(new SvnError(`Invalid SVN_WORKING_COPIES entry '${item.trim()}', expected name=path`));
+      continue;
+    }
+    add(item.substring(0, separator).trim(), item.substring(separator + 1));
+  }
+  return result;
+}
+
+/**
+ * Buscar working copies (directorios con .svn) bajo una raíz, sin entrar en
+ * ellos; el nombre es la ruta relativa a la raíz
  */
-// export function normalizePath(filePath: string): string {
-//   return path.resolve(filePath).replace(/\\/g, '/');
-// }
+export function discoverWorkingCopies(root: string, maxDepth: number = 2): { name: string; path: string }[] {
+  const found: { name: string; path: string }[] = [];
 
-export function normalizePath(svnWorkingCopy: string, filePath: string): string | null {
-  const trimmedFilePath = filePath.replace(/^[/\\]+/, ''); // make it relative-like
+  const scan = (directory: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
 
-  function searchDir(currentDir: string): string | null {
-    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
     for (const entry of entries) {
-      const fullPath = path.join(currentDir, entry.name);
-      if (entry.isDirectory()) {
-        const result = searchDir(fullPath);
-        if (result) return result;
-      } else if (entry.isFile()) {
-        const relative = path.relative(svnWorkingCopy, fullPath).replace(/\\/g, '/');
-        if (relative.endsWith(trimmedFilePath)) {
-          return fullPath.replace(/\\/g, '/'); // normalize slashes
-        }
+      if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      const entryPath = path.join(directory, entry.name);
+
+      if (fs.existsSync(path.join(entryPath, '.svn'))) {
+        found.push({ name: path.relative(root, entryPath).split(path.sep).join('/'), path: entryPath });
+      } else if (depth < maxDepth) {
+        scan(entryPath, depth + 1);
       }
     }
-    return null;
-  }
+  };
 
-  return searchDir(svnWorkingCopy);
+  scan(path.resolve(root), 1);
+  return found.sort((a, b) => a.name.localeCompare(b.name));
 }
 
+/**
+ * Buscar la raíz de la copia de trabajo subiendo directorios hasta encontrar .svn
+ */
+export function findWorkingCopyRoot(directory: string): string | null {
+  let current = path.resolve(directory);
+  while (true) {
+    if (fs.existsSync(path.join(current, '.svn'))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
 
 /**
- * Escape arguments for command line on Windows
+ * Resolver una ruta de forma exacta relativa al directorio de trabajo.
+ * No busca coincidencias: la ruta puede no existir (elementos borrados o
+ * ausentes), pero nunca puede salir de la raíz de la copia de trabajo.
  */
-export function escapeArgument(arg: string): string {
-  // If the argument contains spaces or special characters, wrap it in quotes
-  if (/\s|[&()<>[\]{}^=;!'+,`~%]/.test(arg)) {
-    return `"${arg.replace(/"/g, '""')}"`;
+export function resolveWorkingCopyPath(baseDir: string, filePath: string, root: string = baseDir): SvnResolvedPath {
+  const resolved = path.resolve(baseDir, filePath);
+  const relativePath = path.relative(path.resolve(root), resolved);
+
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new SvnError(`Path is outside the working copy: ${filePath}`);
+  }
+
+  let kind: SvnResolvedPath['kind'];
+  try {
+    kind = fs.statSync(resolved).isDirectory() ? 'dir' : 'file';
+  } catch {
+    kind = undefined;
+  }
+
+  return {
+    path: resolved.replace(/\\/g, '/'),
+    relativePath: relativePath.replace(/\\/g, '/') || '.',
+    exists: kind !== undefined,
+    kind
+  };
+}
+
+/**
+ * Sugerir rutas existentes cuyo final coincide segmento a segmento con la
+ * entrada (a.ts coincide con src/a.ts pero no con lib/data.ts). El recorrido
+ * está acotado para no penalizar copias de trabajo grandes.
+ */
+export function findPathCandidates(root: string, filePath: string, limit: number = 5, maxEntries: number = 20000): string[] {
+  const wanted = filePath.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+  if (wanted.length === 0 || wanted.includes('..')) {
+    return [];
+  }
+
+  const candidates: string[] = [];
+  const queue: string[] = [''];
+  let visited = 0;
+
+  while (queue.length > 0 && candidates.length < limit && visited < maxEntries) {
+    const relativeDir = queue.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, relativeDir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      if (entry.name === '.svn') continue;
+      visited++;
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const segments = relativePath.split('/');
+      if (segments.length > wanted.length && segments.slice(-wanted.length).join('/') === wanted.join('/')) {
+        candidates.push(relativePath);
+        if (candidates.length >= limit) break;
+      }
+      if (entry.isDirectory()) {
+        queue.push(relativePath);
+      }
+    }
   }
-  return arg;
+
+  return candidates;
 }
 
 /**
  * Build authentication arguments
  */
-export function buildAuthArgs(config: SvnConfig, options: { noAuthCache?: boolean } = {}): string[] {
+export function buildAuthArgs(config: SvnConfig, options: { noAuthCache?: boolean; passwordFromStdin?: boolean } = {}): string[] {
   const args: string[] = [];
   
   if (config.username) {
     args.push('--username', config.username);
   }
   
+  // With passwordFromStdin the caller writes the password to the child's stdin
   if (config.password) {
-    args.push('--password', config.password);
+    if (options.passwordFromStdin) {
+      args.push('--password-from-stdin');
+    } else {
+      args.push('--password', config.password);
+    }
   }
   
   // Always use --non-interactive to avoid prompts
@@ -129,252 +251,1197 @@ export function buildAuthArgs(config: SvnConfig, options: { noAuthCache?: boolea
   return args;
 }
 
+const clientVersionCache = new Map<string, Promise<string | null>>();
+const repositoryRootCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Obtener la versión del cliente svn, una sola vez por ejecutable
+ */
+export function getSvnClientVersion(config: SvnConfig): Promise<string | null> {
+  const svnPath = config.svnPath || 'svn';
+  let version = clientVersionCache.get(svnPath);
+  if (!version) {
+    version = executeSvnCommand(config, ['--version', '--quiet'], { skipAuth: true })
+      .then(response => (response.data as string).trim() || null)
+      .catch(() => null);
+    clientVersionCache.set(svnPath, version);
+  }
+  return version;
+}
+
+/**
+ * URL con la que se eligen las credenciales: la primera URL de los argumentos
+ * o, para rutas locales, la raíz del repositorio de la copia de trabajo
+ */
+async function credentialRealmUrl(config: SvnConfig, args: string[]): Promise<string | undefined> {
+  const url = args.find(arg => validateSvnUrl(arg));
+  if (url) return url;
+
+  const workingDirectory = config.workingDirectory || process.cwd();
+  let root = repositoryRootCache.get(workingDirectory);
+  if (!root) {
+    root = executeSvnCommand(config, ['info', '--show-item', 'repos-root-url'], { skipAuth: true })
+      .then(response => (response.data as string).trim() || undefined)
+      .catch(() => undefined);
+    repositoryRootCache.set(workingDirectory, root);
+  }
+  return root;
+}
+
 /**
  * Ejecutar comando SVN con manejo de errores mejorado
  */
 export async function executeSvnCommand(
   config: SvnConfig,
   args: string[],
-  options: { input?: string; encoding?: BufferEncoding; noAuthCache?: boolean } = {}
+  options: {
+    input?: string;
+    encoding?: BufferEncoding;
+    noAuthCache?: boolean;
+    raw?: boolean;
+    skipAuth?: boolean;
+    signal?: AbortSignal;
+    onLine?: (line: string) => void;
+    maxBytes?: number;
+  } = {}
 ): Promise<SvnResponse> {
   const startTime = Date.now();
   
-  // Agregar argumentos de autenticación
-  const finalArgs = [...args, ...buildAuthArgs(config, { noAuthCache: options.noAuthCache })];
-  const command = `${config.svnPath} ${finalArgs.join(' ')}`;
-
-  logToFileParam('Executing SVN command', command )
-  return new Promise((resolve, reject) => {
-    // Configurar opciones de spawn para Windows
-    const spawnOptions: SpawnOptions = {
+  // Agregar argumentos de autenticación; la contraseña va por stdin si el cliente lo admite
+  const finalArgs = [...args];
+  let credentials: SvnCredentials = {};
+  let passwordFromStdin = false;
+  if (!options.skipAuth) {
+    const entries = loadCredentialEntries();
+    credentials = entries.length > 0
+      ? await resolveCredentials(config, await credentialRealmUrl(config, args), entries)
+      : { username: config.username, password: config.password };
+    passwordFromStdin = !!credentials.password && options.input === undefined
+      && supportsPasswordFromStdin(await getSvnClientVersion(config));
+    finalArgs.push(...buildAuthArgs({ ...config, ...credentials }, { noAuthCache: options.noAuthCache, passwordFromStdin }));
+  }
+
+  // Nada que llegue a respuestas, errores o logs puede contener la contraseña
+  const secrets = [credentials.password, config.password];
+  const displayArgs = finalArgs.map((arg, index) => (finalArgs[index - 1] === '--password' ? '***' : arg));
+  const command = redactSecrets(formatCommandLine(config.svnPath || 'svn', displayArgs), secrets);
+
+  const logFields = { command, workingCopy: config.workingDirectory };
+  logger.debug('Executing SVN command', logFields);
+
+  let result: RunCommandResult;
+  try {
+    // argv exacto, sin shell: mensajes, rutas y URLs llegan a svn byte a byte
+    result = await runCommand(config.svnPath || 'svn', finalArgs, {
       cwd: config.workingDirectory,
-      shell: true, // Importante para Windows
-      stdio: ['pipe', 'pipe', 'pipe'],
       env: {
         ...process.env,
         // Asegurar que SVN use UTF-8
         LANG: 'en_US.UTF-8',
         LC_ALL: 'en_US.UTF-8'
-      }
-    };
-    
-    const childProcess = spawn(config.svnPath!, finalArgs, spawnOptions);
-    
-    let stdout = '';
-    let stderr = '';
-    
-    // Configurar timeout
-    const timeout = setTimeout(() => {
-      childProcess.kill('SIGTERM');
-      reject(new SvnError(`Command timeout after ${config.timeout}ms: ${command}`));
-    }, config.timeout);
-    
-    // Capturar stdout
-    childProcess.stdout?.on('data', (data) => {
-      stdout += data.toString(options.encoding || 'utf8');
+      },
+      input: passwordFromStdin ? `${credentials.password}\n` : options.input,
+      timeout: config.timeout,
+      encoding: options.encoding,
+      signal: options.signal,
+      onStdoutLine: options.onLine,
+      maxStdoutBytes: options.maxBytes
     });
-    
-    // Capturar stderr
-    childProcess.stderr?.on('data', (data) => {
-      stderr += data.toString(options.encoding || 'utf8');
-    });
-    
-    // Enviar input si se proporciona
-    if (options.input && childProcess.stdin) {
-      childProcess.stdin.write(options.input);
-      childProcess.stdin.end();
-    }
-    
-    // Manejar finalización del proceso
-    childProcess.on('close', (code) => {
-      clearTimeout(timeout);
-      
-      const executionTime = Date.now() - startTime;
-      const response: SvnResponse = {
-        success: code === 0,
-        command,
-        workingDirectory: config.workingDirectory!,
-        executionTime
-      };
-      
-      if (code === 0) {
-        response.data = stdout.trim();
-        resolve(response);
-      } else {
-        const error = new SvnError(`SVN command failed with code ${code}: ${command}`);
-        error.code = code || undefined;
-        error.stderr = stderr.trim();
-        error.command = command;
-        
-        response.error = error.message;
-        response.data = stderr.trim();
-        
-        reject(error);
-      }
-    });
-    
-    // Manejar errores del proceso
-    childProcess.on('error', (error) => {
-      clearTimeout(timeout);
-      
-      const svnError = new SvnError(`Failed to execute SVN command: ${error.message}`);
-      svnError.command = command;
-      
-      reject(svnError);
-    });
-  });
+  } catch (error: any) {
+    const svnError = new SvnError(`Failed to execute SVN command: ${redactSecrets(error.message, secrets)}`);
+    svnError.command = command;
+    logger.error(svnError.message, { ...logFields, durationMs: Date.now() - startTime });
+    throw svnError;
+  }
+
+  const durationMs = Date.now() - startTime;
+
+  // Interrumpido: se conserva la salida parcial para poder informar del estado
+  if (result.timedOut || result.cancelled) {
+    const interruptedError = result.timedOut
+      ? new SvnError(`Command timeout after ${config.timeout}ms: ${command}`)
+      : new SvnError(`SVN command cancelled: ${command}`);
+    interruptedError.command = command;
+    interruptedError.interrupted = result.timedOut ? 'timeout' : 'cancelled';
+    interruptedError.stdout = result.stdout;
+    interruptedError.stderr = redactSecrets(result.stderr.trim(), secrets);
+    logger.warning(result.timedOut ? 'SVN command timed out' : 'SVN command cancelled', { ...logFields, durationMs, exitCode: result.code });
+    throw interruptedError;
+  }
+
+  const response: SvnResponse = {
+    success: result.code === 0,
+    command,
+    workingDirectory: config.workingDirectory!,
+    executionTime: durationMs
+  };
+
+  // Cortado a propósito en maxBytes: el proceso termina por la señal, no por un error
+  if (result.code === 0 || result.truncated) {
+    logger.info('SVN command finished', { ...logFields, durationMs, exitCode: result.code });
+    // raw preserva el contenido tal cual (p.ej. svn cat), sin recortar espacios
+    response.data = options.raw ? result.stdout : result.stdout.trim();
+    return response;
+  }
+
+  const error = new SvnError(`SVN command failed with code ${result.code}: ${command}`);
+  error.code = result.code || undefined;
+  error.stderr = redactSecrets(result.stderr.trim(), secrets);
+  error.command = command;
+  logger.warning('SVN command failed', { ...logFields, durationMs, exitCode: result.code, stderr: error.stderr });
+  throw error;
+}
+
+/**
+ * Parsear una línea de notificación de checkout/update ("A    ruta", " U   ruta")
+ * o de commit ("Sending        ruta"); devuelve null para el resto de líneas
+ */
+export function parseNotificationLine(line: string): { action: string; path: string } | null {
+  const update = line.match(/^([ADUCGERB ]{4}) (\S.*)$/);
+  if (update && update[1].trim()) {
+    return { action: update[1].trim(), path: update[2] };
+  }
+
+  const commit = line.match(/^(Sending|Adding|Deleting|Replacing)\s+(?:\((?:bin|copy)\)\s+)?(\S.*)$/);
+  if (commit) {
+    return { action: commit[1], path: commit[2] };
+  }
+
+  return null;
+}
+
+/**
+ * Extraer la revisión de "Checked out revision N.", "Updated to revision N.",
+ * "At revision N." o "Committed revision N."
+ */
+export function parseRevisionLine(line: string): number | undefined {
+  const match = line.match(/^(?:Checked out|Updated to|At|Committed) revision (\d+)\./);
+  return match ? parseInt(match[1], 10) : undefined;
 }
 
 /**
  * Parsear output XML de SVN
  */
-export function parseXmlOutput(xmlString: string): any {
-  // Implementación básica de parsing XML
-  // En un entorno de producción, sería mejor usar una librería como xml2js
+export function parseXmlOutput(xmlString: string): XmlElement {
   try {
-    // Esta es una implementación simplificada para Node.js
-    // En navegadores se usaría DOMParser, pero en Node.js necesitamos otra aproximación
-    const lines = xmlString.split('\n');
-    const result: any = {};
-    
-    for (const line of lines) {
-      const match = line.match(/<([^>]+)>([^<]+)<\/\1>/);
-      if (match) {
-        result[match[1]] = match[2];
-      }
-    }
-    
-    return result;
-  } catch (error) {
+    return parseXml(xmlString);
+  } catch (error: any) {
+    if (error instanceof SvnError) throw error;
     throw new SvnError(`Failed to parse XML output: ${error}`);
   }
 }
 
 /**
- * Parsear información de svn info
+ * Convertir una <entry> de svn info --xml en SvnInfo
  */
-export function parseInfoOutput(output: string): SvnInfo {
-  const lines = output.split('\n');
-  const info: Partial<SvnInfo> = {};
-  
-  for (const line of lines) {
-    const [key, ...valueParts] = line.split(': ');
-    const value = valueParts.join(': ').trim();
-    
-    switch (key.trim()) {
-      case 'Path':
-        info.path = value;
-        break;
-      case 'Working Copy Root Path':
-        info.workingCopyRootPath = value;
-        break;
-      case 'URL':
-        info.url = value;
-        break;
-      case 'Relative URL':
-        info.relativeUrl = value;
-        break;
-      case 'Repository Root':
-        info.repositoryRoot = value;
-        break;
-      case 'Repository UUID':
-        info.repositoryUuid = value;
-        break;
-      case 'Revision':
-        info.revision = parseInt(value, 10);
-        break;
-      case 'Node Kind':
-        info.nodeKind = value as 'file' | 'directory';
-        break;
-      case 'Schedule':
-        info.schedule = value;
-        break;
-      case 'Last Changed Author':
-        info.lastChangedAuthor = value;
-        break;
-      case 'Last Changed Rev':
-        info.lastChangedRev = parseInt(value, 10);
-        break;
-      case 'Last Changed Date':
-        info.lastChangedDate = value;
-        break;
-      case 'Text Last Updated':
-        info.textLastUpdated = value;
-        break;
-      case 'Checksum':
-        info.checksum = value;
-        break;
+function infoFromXmlEntry(entry: XmlElement): SvnInfo {
+  const repository = xmlChild(entry, 'repository');
+  const wcInfo = xmlChild(entry, 'wc-info');
+  const commit = xmlChild(entry, 'commit');
+
+  return {
+    path: entry.attributes['path'] || '',
+    workingCopyRootPath: xmlChildText(wcInfo, 'wcroot-abspath')?.trim() || '',
+    url: xmlChildText(entry, 'url')?.trim() || '',
+    relativeUrl: xmlChildText(entry, 'relative-url')?.trim() || '',
+    repositoryRoot: xmlChildText(repository, 'root')?.trim() || '',
+    repositoryUuid: xmlChildText(repository, 'uuid')?.trim() || '',
+    revision: parseInt(entry.attributes['revision'] || '0', 10),
+    nodeKind: entry.attributes['kind'] === 'dir' ? 'directory' : 'file',
+    schedule: xmlChildText(wcInfo, 'schedule')?.trim() || '',
+    lastChangedAuthor: xmlChildText(commit, 'author')?.trim() || '',
+    lastChangedRev: parseInt(commit?.attributes['revision'] || '0', 10),
+    lastChangedDate: xmlChildText(commit, 'date')?.trim() || '',
+    textLastUpdated: xmlChildText(wcInfo, 'text-updated')?.trim(),
+    checksum: xmlChildText(wcInfo, 'checksum')?.trim()
+  };
+}
+
+/**
+ * Parsear información de svn info --xml
+ */
+export function parseInfoOutput(xml: string): SvnInfo {
+  const entry = xmlChild(parseXmlOutput(xml), 'entry');
+  if (!entry) {
+    throw new SvnError('Failed to parse svn info output: no entry found');
+  }
+  return infoFromXmlEntry(entry);
+}
+
+/**
+ * Convertir un elemento <lock> de svn status/info --xml en SvnLock
+ */
+function lockFromXml(lock: XmlElement | undefined, path: string): SvnLock | undefined {
+  if (!lock) return undefined;
+
+  return {
+    path,
+    token: xmlChildText(lock, 'token')?.trim() ?? '',
+    owner: xmlChildText(lock, 'owner')?.trim() ?? '',
+    comment: xmlChildText(lock, 'comment'),
+    created: xmlChildText(lock, 'created')?.trim() ?? '',
+    expires: xmlChildText(lock, 'expires')?.trim()
+  };
+}
+
+/**
+ * Parsear los locks que devuelve 'svn info --xml' (solo entradas bloqueadas)
+ */
+export function parseLockInfo(xml: string): SvnLock[] {
+  if (!xml.trim()) return [];
+
+  return xmlChildren(parseXmlOutput(xml), 'entry')
+    .map(entry => lockFromXml(xmlChild(entry, 'lock'), entry.attributes['path'] || ''))
+    .filter((lock): lock is SvnLock => lock !== undefined);
+}
+
+/**
+ * Combinar el lock local y el del repositorio (status -u) de cada ruta
+ */
+export function collectLocks(statusList: SvnStatus[], infoLocks: SvnLock[] = []): SvnLockEntry[] {
+  const details = new Map(infoLocks.map(lock => [lock.path, lock]));
+  const entries: SvnLockEntry[] = [];
+
+  for (const status of statusList) {
+    const local = status.lock;
+    const remote = status.remoteLock;
+    if (!local && !remote) continue;
+
+    let state: SvnLockEntry['state'];
+    if (local && remote) {
+      state = local.token === remote.token ? 'held' : 'stolen';
+    } else if (local) {
+      state = 'broken';
+    } else {
+      state = 'other';
     }
+
+    const lock = { ...local, ...remote } as SvnLock;
+    const detail = details.get(status.path);
+    entries.push({
+      ...lock,
+      path: status.path,
+      comment: lock.comment ?? detail?.comment,
+      expires: lock.expires ?? detail?.expires,
+      state
+    });
   }
-  
-  return info as SvnInfo;
+
+  return entries;
 }
 
 /**
- * Parsear output de svn status
+ * Parsear output de svn status --xml
+ *
+ * Con --show-updates cada entrada incluye además <repos-status>, que indica
+ * si hay una versión más reciente en el servidor o un lock ajeno.
  */
-export function parseStatusOutput(output: string): SvnStatus[] {
-  const lines = output.split('\n').filter(line => line.trim());
+export function parseStatusOutput(xml: string): SvnStatus[] {
   const statusList: SvnStatus[] = [];
-  
-  for (const line of lines) {
-    if (line.length < 8) continue;
-    
-    const statusCode = line[0];
-    const propStatusCode = line[1];
-    const path = line.substring(8).trim();
-    
+
+  if (!xml || xml.trim().length === 0) {
+    return statusList;
+  }
+
+  for (const entry of xmlDescendants(parseXmlOutput(xml), 'entry')) {
+    const wcStatus = xmlChild(entry, 'wc-status');
+    if (!wcStatus) continue;
+
+    const path = entry.attributes['path'];
+    const attributes = wcStatus.attributes;
+    const commit = xmlChild(wcStatus, 'commit');
     const status: SvnStatus = {
       path,
-      status: (SVN_STATUS_CODES as any)[statusCode] || 'unknown'
+      status: (attributes['item'] || 'none') as SvnStatus['status']
     };
-    
+
+    if (attributes['revision']) {
+      status.revision = parseInt(attributes['revision'], 10);
+    }
+    if (commit) {
+      status.changedRev = parseInt(commit.attributes['revision'], 10);
+      status.changedAuthor = xmlChildText(commit, 'author');
+      status.changedDate = xmlChildText(commit, 'date');
+    }
+    if (attributes['props'] && attributes['props'] !== 'none') {
+      status.propStatus = attributes['props'] as SvnStatus['propStatus'];
+    }
+    if (attributes['tree-conflicted'] === 'true') status.treeConflicted = true;
+    if (attributes['copied'] === 'true') status.copied = true;
+    if (attributes['switched'] === 'true') status.switched = true;
+    if (attributes['file-external'] === 'true') status.fileExternal = true;
+    if (attributes['wc-locked'] === 'true') status.workingCopyLocked = true;
+
+    const lock = lockFromXml(xmlChild(wcStatus, 'lock'), path);
+    if (lock) status.lock = lock;
+
+    const reposStatus = xmlChild(entry, 'repos-status');
+    if (reposStatus) {
+      const remoteItem = reposStatus.attributes['item'] || 'none';
+      const remoteProps = reposStatus.attributes['props'] || 'none';
+      status.remoteStatus = remoteItem;
+      status.remotePropStatus = remoteProps;
+      status.outOfDate = remoteItem !== 'none' || remoteProps !== 'none';
+
+      const remoteLock = lockFromXml(xmlChild(reposStatus, 'lock'), path);
+      if (remoteLock) status.remoteLock = remoteLock;
+    }
+
     statusList.push(status);
   }
-  
+
   return statusList;
 }
 
 /**
- * Parsear output de svn log
+ * Parsear output de svn log --xml (con --verbose incluye las rutas cambiadas)
  */
-export function parseLogOutput(output: string): SvnLogEntry[] {
+export function parseLogOutput(xml: string): SvnLogEntry[] {
   const entries: SvnLogEntry[] = [];
-  
-  if (!output || output.trim().length === 0) {
+
+  if (!xml || xml.trim().length === 0) {
     return entries;
   }
-  
-  // Dividir por las líneas separadoras de SVN log
-  const logEntries = output.split(/^-{72}$/gm).filter(entry => entry.trim());
-  
-  for (const entryText of logEntries) {
-    const lines = entryText.trim().split('\n');
-    if (lines.length < 2) continue;
-    
-    const headerLine = lines[0];
-    // Patrón más flexible para el header
-    const headerMatch = headerLine.match(/^r(\d+)\s*\|\s*([^|]+?)\s*\|\s*([^|]+?)\s*\|\s*(.*)$/);
-    
-    if (headerMatch) {
-      try {
-        const [, revision, author, date, details] = headerMatch;
-        const message = lines.slice(2).join('\n').trim();
-        
-        entries.push({
-          revision: parseInt(revision, 10),
-          author: author.trim(),
-          date: date.trim(),
-          message: message || 'Sin mensaje'
-        });
-      } catch (parseError) {
-        console.warn(`Warning: Failed to parse log entry: ${parseError}`);
+
+  for (const logEntry of xmlChildren(parseXmlOutput(xml), 'logentry')) {
+    const entry: SvnLogEntry = {
+      revision: parseInt(logEntry.attributes['revision'], 10),
+      author: xmlChildText(logEntry, 'author') ?? '',
+      date: xmlChildText(logEntry, 'date') ?? '',
+      message: xmlChildText(logEntry, 'msg') ?? ''
+    };
+
+    const paths = xmlChild(logEntry, 'paths');
+    if (paths) {
+      entry.changedPaths = xmlChildren(paths, 'path').map(pathElement => {
+        const changedPath: SvnChangedPath = {
+          action: pathElement.attributes['action'] as SvnChangedPath['action'],
+          path: pathElement.text
+        };
+        if (pathElement.attributes['copyfrom-path']) {
+          changedPath.copyFromPath = pathElement.attributes['copyfrom-path'];
+          changedPath.copyFromRev = parseInt(pathElement.attributes['copyfrom-rev'], 10);
+        }
+        return changedPath;
+      });
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Parsear output de svn blame --xml
+ *
+ * El XML de blame no incluye el contenido de las líneas; se rellena
+ * después con la salida de `svn cat` sobre el mismo target.
+ */
+export function parseBlameOutput(xml: string, content?: string): SvnBlameLine[] {
+  const contentLines = content !== undefined ? content.replace(/\r\n/g, '\n').split('\n') : [];
+
+  return xmlDescendants(parseXmlOutput(xml), 'entry').map(entry => {
+    const lineNumber = parseInt(entry.attributes['line-number'], 10);
+    const commit = xmlChild(entry, 'commit');
+
+    return {
+      // Las líneas sin commit son modificaciones locales todavía no confirmadas
+      revision: commit ? parseInt(commit.attributes['revision'], 10) : 0,
+      author: xmlChildText(commit, 'author') ?? '',
+      date: xmlChildText(commit, 'date') ?? '',
+      lineNumber,
+      content: contentLines[lineNumber - 1] ?? ''
+    };
+  });
+}
+
+/**
+ * Parsear output de svn list --xml
+ */
+export function parseListOutput(xml: string): SvnListEntry[] {
+  return xmlDescendants(parseXmlOutput(xml), 'entry').map(entry => {
+    const commit = xmlChild(entry, 'commit');
+    const size = xmlChildText(entry, 'size');
+
+    return {
+      name: xmlChildText(entry, 'name') ?? '',
+      kind: entry.attributes['kind'] === 'dir' ? 'directory' as const : 'file' as const,
+      size: size !== undefined ? parseInt(size, 10) : undefined,
+      lastChangedRev: commit ? parseInt(commit.attributes['revision'], 10) : 0,
+      lastChangedAuthor: xmlChildText(commit, 'author') ?? '',
+      lastChangedDate: xmlChildText(commit, 'date') ?? ''
+    };
+  });
+}
+
+/**
+ * Parsear output de svn proplist/propget --xml (proplist necesita --verbose para los valores)
+ *
+ * Las propiedades de revisión (--revprop) vienen en <revprops rev="N"> y se
+ * devuelven con la ruta "rN".
+ */
+export function parsePropListOutput(xml: string): SvnPropertyList[] {
+  if (!xml || xml.trim().length === 0) {
+    return [];
+  }
+
+  return parseXmlOutput(xml).children
+    .filter(target => target.name === 'target' || target.name === 'revprops')
+    .map(target => {
+      const properties: Record<string, string> = {};
+      for (const property of xmlChildren(target, 'property')) {
+        properties[property.attributes['name']] = property.text;
+      }
+      const path = target.name === 'revprops' ? `r${target.attributes['rev']}` : target.attributes['path'];
+      return { path, properties };
+    });
+}
+
+/**
+ * Deducir la estructura trunk/branches/tags a partir de svn info
+ *
+ * Se busca el primer segmento trunk, branches/<nombre> o tags/<nombre> de la
+ * URL relativa; lo que hay por delante es la raíz del proyecto. Si no aparece
+ * ninguno se asume que la estructura estándar cuelga de la URL actual.
+ */
+export function resolveRepositoryLayout(info: SvnInfo): SvnRepositoryLayout {
+  const repositoryRoot = info.repositoryRoot.replace(/\/+$/, '');
+  const relativeUrl = (info.relativeUrl || '^/').replace(/^\^/, '').replace(/\/+$/, '');
+  const match = relativeUrl.match(/^(.*?)\/(trunk|branches\/[^/]+|tags\/[^/]+)(?:\/.*)?$/);
+
+  const projectPath = match ? match[1] : relativeUrl;
+  const projectRoot = `${repositoryRoot}${projectPath}`;
+
+  return {
+    repositoryRoot,
+    projectRoot,
+    trunkUrl: `${projectRoot}/trunk`,
+    branchesUrl: `${projectRoot}/branches`,
+    tagsUrl: `${projectRoot}/tags`,
+    currentBranch: match ? match[2] : undefined
+  };
+}
+
+/**
+ * Parsear output de svn merge (también con --dry-run)
+ *
+ * Columnas: 0 = texto, 1 = propiedades, 3 = conflicto de árbol. Las líneas
+ * bajo "--- Recording/Eliding mergeinfo" solo actualizan svn:mergeinfo.
+ */
+export function parseMergeOutput(output: string, dryRun: boolean = false): SvnMergeResult {
+  const textActions: Record<string, SvnMergeChange['action']> = {
+    'A': 'added',
+    'D': 'deleted',
+    'U': 'updated',
+    'G': 'merged',
+    'R': 'replaced',
+    'C': 'conflicted',
+    'E': 'existed'
+  };
+  const propActions: Record<string, SvnMergeChange['propertyAction']> = {
+    'U': 'updated',
+    'G': 'merged',
+    'C': 'conflicted'
+  };
+
+  const changes: SvnMergeChange[] = [];
+  const mergeinfoPaths: string[] = [];
+  let recordingMergeinfo = false;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('---')) {
+      recordingMergeinfo = /^--- (Recording|Eliding) mergeinfo/.test(line);
+      continue;
+    }
+    // El resto de cabeceras (Summary of conflicts:) no son cambios de archivo
+    if (line.length < 6 || !/^[ ADUGRCE][ UGC][ B][ C] /.test(line)) {
+      continue;
+    }
+
+    const path = line.substring(5).trim();
+    if (!path) continue;
+
+    if (recordingMergeinfo) {
+      mergeinfoPaths.push(path);
+      continue;
+    }
+
+    const textCode = line[0];
+    const propCode = line[1];
+    const treeConflict = line[3] === 'C';
+
+    changes.push({
+      path,
+      action: treeConflict ? 'conflicted' : textActions[textCode],
+      propertyAction: propActions[propCode],
+      treeConflict: treeConflict || undefined
+    });
+  }
+
+  const conflicts = changes
+    .filter(change => change.action === 'conflicted' || change.propertyAction === 'conflicted')
+    .map(change => change.path);
+
+  return {
+    dryRun,
+    changes,
+    conflicts,
+    mergeinfoPaths,
+    output
+  };
+}
+
+/**
+ * Compactar una lista de revisiones para 'svn log -c' (5,6,7,9 -> "5-7,9")
+ */
+export function formatRevisionList(revisions: number[]): string {
+  const sorted = [...new Set(revisions)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+      i++;
+    }
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(',');
+}
+
+/**
+ * Parsear 'svn diff --summarize --xml' dejando las rutas relativas a la URL base
+ */
+export function parseDiffSummary(xml: string, ...baseUrls: string[]): SvnDiffSummaryEntry[] {
+  if (!xml.trim()) return [];
+
+  const bases = baseUrls.map(url => url.replace(/\/+$/, ''));
+  const relative = (url: string) => {
+    const base = bases.find(b => url === b || url.startsWith(`${b}/`));
+    return base ? decodeURIComponent(url.substring(base.length + 1)) || '.' : url;
+  };
+
+  return xmlDescendants(parseXmlOutput(xml), 'path').map(element => ({
+    path: relative(element.text.trim()),
+    item: (element.attributes['item'] || 'none') as SvnDiffSummaryEntry['item'],
+    props: element.attributes['props'] === 'modified' ? 'modified' : 'none',
+    kind: element.attributes['kind'] === 'dir' ? 'directory' : 'file'
+  }));
+}
+
+/**
+ * Buscar de dónde se copió una rama a partir del log --stop-on-copy de su creación
+ */
+export function findBranchOrigin(logEntries: SvnLogEntry[], branchPath: string): SvnBranchOrigin | undefined {
+  for (const entry of logEntries) {
+    const copy = entry.changedPaths?.find(changed => changed.path === branchPath && changed.copyFromPath);
+    if (copy) {
+      return { path: copy.copyFromPath!, revision: copy.copyFromRev! };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Determinar el ancestro común de dos ramas a partir de su origen:
+ * una copiada de la otra, o ambas copiadas de una tercera
+ */
+export function findCommonAncestor(
+  source: { path: string; origin?: SvnBranchOrigin },
+  target: { path: string; origin?: SvnBranchOrigin }
+): SvnBranchOrigin | undefined {
+  if (source.origin && source.origin.path === target.path) {
+    return source.origin;
+  }
+  if (target.origin && target.origin.path === source.path) {
+    return target.origin;
+  }
+  if (source.origin && target.origin && source.origin.path === target.origin.path) {
+    return { path: source.origin.path, revision: Math.min(source.origin.revision, target.origin.revision) };
+  }
+  return undefined;
+}
+
+/**
+ * Parsear output de svn mergeinfo --show-revs
+ */
+export function parseMergeInfoRevisions(output: string): number[] {
+  return output
+    .split('\n')
+    .map(line => line.trim().match(/^r(\d+)/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1], 10));
+}
+
+/**
+ * Obtener las rutas en conflicto de la salida de svn status --xml
+ */
+export function parseConflictStatus(xml: string): SvnConflict[] {
+  const conflicts: SvnConflict[] = [];
+
+  if (!xml || xml.trim().length === 0) {
+    return conflicts;
+  }
+
+  for (const entry of xmlDescendants(parseXmlOutput(xml), 'entry')) {
+    const wcStatus = xmlChild(entry, 'wc-status');
+    if (!wcStatus) continue;
+
+    const kinds: SvnConflict['kinds'] = [];
+    if (wcStatus.attributes['item'] === 'conflicted') kinds.push('text');
+    if (wcStatus.attributes['props'] === 'conflicted') kinds.push('property');
+    if (wcStatus.attributes['tree-conflicted'] === 'true') kinds.push('tree');
+
+    if (kinds.length > 0) {
+      conflicts.push({ path: entry.attributes['path'], kinds });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Completar un conflicto con los archivos auxiliares que indica svn info --xml
+ */
+export function parseConflictInfo(xml: string, conflict: SvnConflict): SvnConflict {
+  const result: SvnConflict = { ...conflict };
+  const entry = xmlChild(parseXmlOutput(xml), 'entry');
+
+  // svn 1.7 agrupa todo en un único <conflict>; 1.8+ emite uno por tipo
+  for (const conflictElement of xmlDescendants(entry, 'conflict')) {
+    result.baseFile = xmlChildText(conflictElement, 'prev-base-file')?.trim() ?? result.baseFile;
+    result.mineFile = xmlChildText(conflictElement, 'prev-wc-file')?.trim() ?? result.mineFile;
+    result.theirsFile = xmlChildText(conflictElement, 'cur-base-file')?.trim() ?? result.theirsFile;
+    result.propertyRejectFile = xmlChildText(conflictElement, 'prop-file')?.trim() ?? result.propertyRejectFile;
+  }
+
+  const treeConflict = xmlDescendants(entry, 'tree-conflict')[0];
+  if (treeConflict) {
+    const { reason, action, operation } = treeConflict.attributes;
+    result.treeConflictDescription = `local ${reason}, incoming ${action} upon ${operation}`;
+  }
+
+  return result;
+}
+
+/**
+ * Parsear output unificado de svn diff
+ *
+ * Reconoce las cabeceras Index:, los marcadores de archivo binario,
+ * archivos añadidos o borrados y las secciones "Property changes on:".
+ */
+export function parseDiffOutput(output: string): SvnDiff[] {
+  const diffs: SvnDiff[] = [];
+  const lines = output.replace(/\r\n/g, '\n').split('\n');
+
+  let current: SvnDiff | null = null;
+  let hunk: SvnDiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let inProperties = false;
+  let property: NonNullable<SvnDiff['propertyChanges']>[number] | null = null;
+
+  const startFile = (filePath: string): SvnDiff => {
+    const diff: SvnDiff = {
+      oldPath: filePath,
+      newPath: filePath,
+      hunks: [],
+      changeType: 'modified',
+      additions: 0,
+      deletions: 0
+    };
+    diffs.push(diff);
+    hunk = null;
+    inProperties = false;
+    property = null;
+    return diff;
+  };
+
+  // "(revision 12)" -> 12; "(working copy)" o "(nonexistent)" -> undefined
+  const parseRevision = (label: string): number | undefined => {
+    const match = label.match(/\((?:revision|revisión)\s+(\d+)\)/);
+    return match ? parseInt(match[1], 10) : undefined;
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('Index: ')) {
+      current = startFile(line.substring(7).trim());
+      continue;
+    }
+
+    const propertyHeader = line.match(/^Property changes on: (.*)$/);
+    if (propertyHeader) {
+      const filePath = propertyHeader[1].trim();
+      if (!current || current.newPath !== filePath) {
+        current = startFile(filePath);
+      }
+      current.propertyChanges = current.propertyChanges || [];
+      inProperties = true;
+      hunk = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (inProperties) {
+      const propertyAction = line.match(/^(Added|Modified|Deleted|Name): (.*)$/);
+      if (propertyAction) {
+        const action = propertyAction[1] === 'Name' ? 'modified' : propertyAction[1].toLowerCase() as 'added' | 'modified' | 'deleted';
+        property = { name: propertyAction[2].trim(), action };
+        current.propertyChanges!.push(property);
         continue;
       }
+      // Formato actual "+valor" y formato antiguo "   + valor"
+      const propertyValue = line.match(/^([+-])(.*)$/) || line.match(/^ {3}([+-]) (.*)$/);
+      if (property && propertyValue) {
+        const key = propertyValue[1] === '+' ? 'newValue' : 'oldValue';
+        const value = propertyValue[2];
+        property[key] = property[key] !== undefined ? `${property[key]}\n${value}` : value;
+      }
+      continue;
+    }
+
+    if (line.startsWith('Cannot display: file marked as a binary type.') || /^Binary files .* differ$/.test(line)) {
+      current.binary = true;
+      continue;
     }
+
+    if (line.startsWith('--- ') && !hunk) {
+      const [filePath, label = ''] = line.substring(4).split('\t');
+      current.oldPath = filePath.trim();
+      current.oldRevision = parseRevision(label);
+      if (label.includes('nonexistent') || current.oldRevision === 0) {
+        current.changeType = 'added';
+      }
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && !hunk) {
+      const [filePath, label = ''] = line.substring(4).split('\t');
+      current.newPath = filePath.trim();
+      current.newRevision = parseRevision(label);
+      if (label.includes('nonexistent')) {
+        current.changeType = 'deleted';
+      }
+      continue;
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      hunk = {
+        oldStart: parseInt(hunkHeader[1], 10),
+        oldCount: hunkHeader[2] !== undefined ? parseInt(hunkHeader[2], 10) : 1,
+        newStart: parseInt(hunkHeader[3], 10),
+        newCount: hunkHeader[4] !== undefined ? parseInt(hunkHeader[4], 10) : 1,
+        lines: []
+      };
+      current.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+
+      // Sin cabecera "(nonexistent)" (clientes antiguos) se deduce del rango del hunk
+      if (current.hunks.length === 1 && hunk.oldStart === 0 && hunk.oldCount === 0) {
+        current.changeType = 'added';
+      } else if (current.hunks.length === 1 && hunk.newStart === 0 && hunk.newCount === 0) {
+        current.changeType = 'deleted';
+      }
+      continue;
+    }
+
+    if (!hunk) continue;
+    const currentHunk: SvnDiffHunk = hunk;
+
+    if (line.startsWith('+')) {
+      currentHunk.lines.push({ type: 'added', content: line.substring(1), newLineNumber: newLine++ });
+      current.additions!++;
+    } else if (line.startsWith('-')) {
+      currentHunk.lines.push({ type: 'deleted', content: line.substring(1), oldLineNumber: oldLine++ });
+      current.deletions!++;
+    } else if (line.startsWith(' ')) {
+      currentHunk.lines.push({ type: 'context', content: line.substring(1), oldLineNumber: oldLine++, newLineNumber: newLine++ });
+    }
+    // "\ No newline at end of file" y líneas vacías de separación se ignoran
   }
-  
-  return entries;
+
+  return diffs;
+}
+
+/**
+ * Clasificar las entradas de 'svn status' en las listas del resumen del working copy
+ */
+export function summarizeStatus(statusList: SvnStatus[]): Pick<SvnWorkingCopySummary, 'conflictedFiles' | 'modifiedFiles' | 'addedFiles' | 'deletedFiles' | 'unversionedFiles'> {
+  const paths = (predicate: (status: SvnStatus) => boolean) => statusList.filter(predicate).map(status => status.path);
+
+  return {
+    conflictedFiles: paths(s => s.status === 'conflicted' || s.propStatus === 'conflicted' || !!s.treeConflicted),
+    modifiedFiles: paths(s => ['modified', 'replaced', 'merged'].includes(s.status) || (s.status === 'normal' && s.propStatus === 'modified')),
+    addedFiles: paths(s => s.status === 'added'),
+    deletedFiles: paths(s => s.status === 'deleted'),
+    unversionedFiles: paths(s => s.status === 'unversioned')
+  };
+}
+
+/**
+ * Calcular el tamaño en disco de un directorio (en bytes) sin contar los metadatos .svn
+ */
+export async function calculateDiskUsage(directory: string): Promise<number> {
+  let total = 0;
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.name === '.svn') continue;
+    const entryPath = path.join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      total += await calculateDiskUsage(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.promises.stat(entryPath)).size;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Indicar si una entrada de 'svn status' es un cambio local pendiente de commit
+ */
+export function isLocalChange(status: SvnStatus): boolean {
+  return ['added', 'deleted', 'modified', 'replaced', 'merged', 'conflicted'].includes(status.status) || status.propStatus === 'modified';
+}
+
+/**
+ * Revisiones mínima y máxima de las entradas versionadas (svn status -v)
+ */
+export function revisionRange(statusList: SvnStatus[]): { minRevision: number; maxRevision: number } | undefined {
+  const revisions = statusList
+    .filter(status => status.revision !== undefined && status.revision > 0 && !['unversioned', 'ignored', 'external', 'added'].includes(status.status))
+    .map(status => status.revision!);
+
+  if (revisions.length === 0) return undefined;
+  return { minRevision: Math.min(...revisions), maxRevision: Math.max(...revisions) };
+}
+
+/**
+ * Analizar el estado del working copy (svn status -v) y devolver los problemas
+ * encontrados, cada uno con una sugerencia concreta
+ */
+export function analyzeWorkingCopyHealth(
+  statusList: SvnStatus[],
+  options: { headRevision?: number; brokenExternals?: string[] } = {}
+): SvnHealthIssue[] {
+  const issues: SvnHealthIssue[] = [];
+
+  for (const status of statusList) {
+    const kinds = [
+      status.status === 'conflicted' ? 'text' : '',
+      status.propStatus === 'conflicted' ? 'property' : '',
+      status.treeConflicted ? 'tree' : ''
+    ].filter(Boolean);
+    if (kinds.length > 0) {
+      issues.push({
+        type: 'error',
+        message: `Unresolved ${kinds.join(' and ')} conflict`,
+        path: status.path,
+        suggestion: 'Inspect it with svn_conflicts and resolve it with svn_resolve before committing'
+      });
+    }
+
+    if (status.workingCopyLocked) {
+      issues.push({
+        type: 'error',
+        message: 'Working copy is locked by an interrupted or running operation',
+        path: status.path,
+        suggestion: 'Make sure no other svn process is running, then run svn_cleanup'
+      });
+    }
+
+    if (status.status === 'missing') {
+      issues.push({
+        type: 'warning',
+        message: 'Versioned item is missing on disk (!)',
+        path: status.path,
+        suggestion: 'Restore it with svn_revert, or schedule the deletion with svn_delete if it was removed on purpose'
+      });
+    } else if (status.status === 'obstructed') {
+      issues.push({
+        type: 'warning',
+        message: 'Versioned item is obstructed by an item of a different kind (~)',
+        path: status.path,
+        suggestion: 'Move the obstructing file or directory out of the way, then run svn_revert or svn_update'
+      });
+    } else if (status.status === 'incomplete') {
+      issues.push({
+        type: 'warning',
+        message: 'Directory is incomplete (an update or checkout was interrupted)',
+        path: status.path,
+        suggestion: 'Run svn_update to finish fetching it'
+      });
+    }
+
+    if (status.switched) {
+      issues.push({
+        type: 'warning',
+        message: 'Subtree is switched to a different URL than its parent',
+        path: status.path,
+        suggestion: 'Check it with svn_info; switch it back with svn_switch if it was not intentional'
+      });
+    }
+  }
+
+  for (const external of options.brokenExternals || []) {
+    issues.push({
+      type: 'warning',
+      message: 'External definition was not checked out',
+      path: external,
+      suggestion: 'Run svn_update to fetch it and check the svn:externals URL with svn_propget'
+    });
+  }
+
+  const range = revisionRange(statusList);
+  if (range) {
+    const { minRevision, maxRevision } = range;
+
+    if (minRevision !== maxRevision) {
+      issues.push({
+        type: 'warning',
+        message: `Mixed revisions in the working copy (r${minRevision} to r${maxRevision})`,
+        suggestion: 'Run svn_update to bring everything to a single revision; merges refuse mixed-revision working copies'
+      });
+    }
+
+    if (options.headRevision !== undefined && options.headRevision > maxRevision) {
+      issues.push({
+        type: 'warning',
+        message: `Working copy is out of date: the branch changed in r${options.headRevision}, the working copy is at r${maxRevision}`,
+        suggestion: 'Run svn_update before committing or merging'
+      });
+    }
+  }
+
+  const changed = statusList.filter(isLocalChange);
+  if (changed.length > 0) {
+    issues.push({
+      type: 'info',
+      message: `${changed.length} path(s) with uncommitted changes`,
+      suggestion: 'Review them with svn_status or svn_diff, then commit with svn_commit or discard with svn_revert'
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Convertir un error de svn en un problema de salud con su sugerencia
+ */
+export function healthIssueFromError(error: any): SvnHealthIssue {
+  const text = `${error?.message || ''} ${error?.stderr || ''}`;
+
+  if (text.includes('E155007') || text.includes('is not a working copy')) {
+    return { type: 'error', message: 'The directory is not an SVN working copy', suggestion: 'Run svn_checkout, or point SVN_WORKING_DIRECTORY at an existing working copy' };
+  }
+  if (text.includes('E155021') || text.includes('client is too old')) {
+    return { type: 'error', message: 'The SVN client is older than the working copy format', suggestion: 'Upgrade the SVN client to the version that created the working copy' };
+  }
+  if (text.includes('E155036') || text.includes('is too old')) {
+    return { type: 'error', message: 'The working copy format is older than the SVN client', suggestion: "Run 'svn upgrade' in the working copy (older clients will no longer be able to use it)" };
+  }
+  if (text.includes('E155037') || text.includes('Previous operation has not finished')) {
+    return { type: 'error', message: 'A previous operation was interrupted', suggestion: 'Run svn_cleanup to finish or roll back the interrupted operation' };
+  }
+  if (text.includes('E155004') || text.includes('is already locked')) {
+    return { type: 'error', message: 'The working copy is locked', suggestion: 'Make sure no other svn process is running, then run svn_cleanup' };
+  }
+  if (text.includes('E200030') || text.includes('sqlite')) {
+    return { type: 'error', message: 'The working copy database is damaged', suggestion: 'Run svn_cleanup; if it keeps failing, make a fresh checkout' };
+  }
+  if (text.includes('E170001') || text.includes('E215004') || text.includes('Authentication')) {
+    return { type: 'warning', message: 'Cannot authenticate with the repository', suggestion: 'Check SVN_USERNAME and SVN_PASSWORD, or clear cached credentials with svn_clear_credentials' };
+  }
+  if (text.includes('E175002') || text.includes('E170013') || text.includes('Unable to connect')) {
+    return { type: 'warning', message: 'Cannot connect to the repository', suggestion: 'Check the network connection and the repository URL (svn_relocate if the server moved)' };
+  }
+
+  return { type: 'warning', message: (error?.stderr || error?.message || 'Unknown error').trim(), suggestion: 'Run svn_diagnose for more details' };
+}
+
+/**
+ * Validar una lista de operaciones en lote antes de ejecutar ninguna
+ * (devuelve un mensaje por cada problema encontrado)
+ */
+export function validateBatchOperations(operations: SvnBatchOperation[]): string[] {
+  const issues: string[] = [];
+  const validTypes = ['add', 'delete', 'move', 'copy', 'revert'];
+
+  if (operations.length === 0) {
+    issues.push('No operations given');
+  }
+
+  operations.forEach((operation, index) => {
+    const label = `Operation ${index + 1} (${operation.type})`;
+
+    if (!validTypes.includes(operation.type)) {
+      issues.push(`${label}: unknown operation type`);
+      return;
+    }
+
+    const sourceIsUrl = validateSvnUrl(operation.source);
+    if (!operation.source || (!sourceIsUrl && !validatePath(operation.source))) {
+      issues.push(`${label}: invalid source '${operation.source}'`);
+    } else if (sourceIsUrl && (operation.type === 'add' || operation.type === 'revert')) {
+      issues.push(`${label}: ${operation.type} only works on working copy paths`);
+    }
+
+    if (operation.type === 'move' || operation.type === 'copy') {
+      if (!operation.target) {
+        issues.push(`${label}: a target is required`);
+      } else if (!validateSvnUrl(operation.target) && !validatePath(operation.target)) {
+        issues.push(`${label}: invalid target '${operation.target}'`);
+      }
+    } else if (operation.target) {
+      issues.push(`${label}: does not take a target`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Indicar si un svn:mime-type corresponde a contenido binario (svn trata como
+ * texto los text/* y los tipos sin valor)
+ */
+export function isBinaryMimeType(mimeType?: string): boolean {
+  if (!mimeType) return false;
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  const textual = ['application/json', 'application/xml', 'application/javascript', 'application/x-sh', 'image/svg+xml'];
+  return !type.startsWith('text/') && !textual.includes(type) && !type.endsWith('+xml') && !type.endsWith('+json');
+}
+
+/**
+ * Paginar una lista por clave: la página empieza en el elemento cuya clave es
+ * el cursor y termina al llegar a limit elementos o a maxBytes. Siempre incluye
+ * al menos un elemento para que la paginación avance.
+ */
+export function paginateByKey<T>(
+  items: T[],
+  options: { key: (item: T) => string; cursor?: string; limit?: number; maxBytes?: number; size?: (item: T) => number }
+): SvnPage<T> {
+  let offset = 0;
+  if (options.cursor !== undefined) {
+    offset = items.findIndex(item => options.key(item) === options.cursor);
+    if (offset < 0) {
+      throw new SvnError(`Cursor not found: ${options.cursor}. The output changed since the previous page; start again without a cursor`);
+    }
+  }
+
+  const page: T[] = [];
+  let used = 0;
+  for (let index = offset; index < items.length; index++) {
+    if (options.limit && page.length >= options.limit) break;
+    const itemSize = options.size ? options.size(items[index]) : 0;
+    if (options.maxBytes && page.length > 0 && used + itemSize > options.maxBytes) break;
+    page.push(items[index]);
+    used += itemSize;
+  }
+
+  const next = offset + page.length;
+  return {
+    items: page,
+    offset,
+    total: items.length,
+    nextCursor: next < items.length ? options.key(items[next]) : undefined
+  };
+}
+
+/**
+ * Cursor de la siguiente página de svn log: el rango de revisiones que sigue a
+ * la última mostrada, en el mismo sentido que la consulta original.
+ * following es la primera entrada que no se mostró.
+ */
+export function nextLogRange(lastShown: SvnLogEntry, following: SvnLogEntry, revision?: string): string {
+  const ascending = following.revision > lastShown.revision;
+  const end = revision?.match(/^[^:]+:(.+)$/)?.[1] ?? (ascending ? 'HEAD' : '1');
+  return ascending ? `${lastShown.revision + 1}:${end}` : `${lastShown.revision - 1}:${end}`;
+}
+
+/**
+ * Separar un diff unificado en secciones por archivo (Index: o Property changes on:)
+ */
+export function splitDiffByFile(output: string): SvnDiffSection[] {
+  const sections: SvnDiffSection[] = [];
+  let lines: string[] = [];
+
+  for (const line of output.replace(/\r\n/g, '\n').split('\n')) {
+    const index = line.match(/^Index: (.*)$/);
+    const property = line.match(/^Property changes on: (.*)$/);
+    const filePath = index?.[1].trim() ?? property?.[1].trim();
+    const current = sections[sections.length - 1];
+
+    // Los cambios de propiedades de un archivo ya abierto siguen en su sección
+    if (filePath !== undefined && (index || current?.path !== filePath)) {
+      if (current) current.text = lines.join('\n').trimEnd();
+      sections.push({ path: filePath, text: '' });
+      lines = [];
+    }
+    lines.push(line);
+  }
+
+  if (sections.length > 0) {
+    sections[sections.length - 1].text = lines.join('\n').trimEnd();
+  }
+  return sections;
+}
+
+/**
+ * Secciones de un diff con sus estadísticas, solo las de los archivos pedidos si
+ * se indican. Lanza un error si no queda ninguna que mostrar
+ */
+export function selectDiffSections(output: string, files?: string[]): Array<SvnDiffSection & { file: SvnDiff }> {
+  const wanted = files && files.length > 0 ? files : undefined;
+  const sections = splitDiffByFile(output)
+    .filter(section => !wanted || wanted.includes(section.path))
+    .map(section => ({ ...section, file: parseDiffOutput(section.text)[0] }))
+    .filter((section): section is SvnDiffSection & { file: SvnDiff } => section.file !== undefined);
+
+  if (sections.length === 0) {
+    throw new SvnError(wanted
+      ? `None of the requested files are in the diff: ${wanted.join(', ')}`
+      : 'The diff output contains no file sections');
+  }
+  return sections;
+}
+
+/**
+ * Recortar un texto a un máximo de bytes UTF-8 sin partir caracteres
+ */
+export function truncateToBytes(content: string, maxBytes: number): { content: string; truncated: boolean } {
+  const buffer = Buffer.from(content, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return { content, truncated: false };
+  }
+
+  let end = maxBytes;
+  // Retroceder hasta el inicio de un carácter (los bytes de continuación son 10xxxxxx)
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return { content: buffer.subarray(0, end).toString('utf8'), truncated: true };
+}
+
+/**
+ * Formatear un tamaño en bytes a formato legible
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
 }
 
 /**
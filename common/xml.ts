@@ -0,0 +1,185 @@
+import { SvnError } from './types.js';
+
+// ===== PARSER XML MÍNIMO PARA LA SALIDA --xml DE SVN =====
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Decodificar entidades XML (con nombre y numéricas) en una sola pasada
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, body: string) => {
+    if (body.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(body.substring(2), 16));
+    }
+    if (body.startsWith('#')) {
+      return String.fromCodePoint(parseInt(body.substring(1), 10));
+    }
+    return NAMED_ENTITIES[body] ?? entity;
+  });
+}
+
+/**
+ * Parsear los atributos de una etiqueta XML (nombre="valor")
+ */
+export function parseXmlAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(attributes)) !== null) {
+    result[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+
+  return result;
+}
+
+/**
+ * Parsear un documento XML y devolver su elemento raíz
+ *
+ * Soporta lo que produce `svn ... --xml`: declaración, comentarios, CDATA,
+ * atributos en varias líneas y entidades. El texto de cada elemento se
+ * conserva tal cual (sin recortar) para no alterar mensajes de commit.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (tagStart === -1) {
+      current.text += decodeXmlEntities(xml.substring(position));
+      break;
+    }
+
+    if (tagStart > position) {
+      current.text += decodeXmlEntities(xml.substring(position, tagStart));
+    }
+
+    if (xml.startsWith('<?', tagStart)) {
+      position = findEnd(xml, '?>', tagStart);
+    } else if (xml.startsWith('<!--', tagStart)) {
+      position = findEnd(xml, '-->', tagStart);
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = findEnd(xml, ']]>', tagStart);
+      current.text += xml.substring(tagStart + 9, end - 3);
+      position = end;
+    } else if (xml.startsWith('<!', tagStart)) {
+      position = findEnd(xml, '>', tagStart);
+    } else if (xml.startsWith('</', tagStart)) {
+      const end = findEnd(xml, '>', tagStart);
+      const name = xml.substring(tagStart + 2, end - 1).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw new SvnError(`Failed to parse XML output: unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      position = end;
+    } else {
+      const end = findTagEnd(xml, tagStart);
+      const selfClosing = xml[end - 2] === '/';
+      const body = xml.substring(tagStart + 1, end - (selfClosing ? 2 : 1));
+      const nameMatch = body.match(/^\s*([\w:.-]+)/);
+      if (!nameMatch) {
+        throw new SvnError(`Failed to parse XML output: invalid tag at position ${tagStart}`);
+      }
+
+      const element: XmlElement = {
+        name: nameMatch[1],
+        attributes: parseXmlAttributes(body.substring(nameMatch[0].length)),
+        children: [],
+        text: ''
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = end;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new SvnError(`Failed to parse XML output: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new SvnError('Failed to parse XML output: no root element');
+  }
+
+  return documentElement;
+}
+
+/**
+ * Primer hijo directo con el nombre indicado
+ */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(child => child.name === name);
+}
+
+/**
+ * Todos los hijos directos con el nombre indicado
+ */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(child => child.name === name) : [];
+}
+
+/**
+ * Todos los descendientes con el nombre indicado, en orden de documento
+ */
+export function xmlDescendants(element: XmlElement | undefined, name: string): XmlElement[] {
+  const result: XmlElement[] = [];
+  for (const child of element?.children || []) {
+    if (child.name === name) {
+      result.push(child);
+    }
+    result.push(...xmlDescendants(child, name));
+  }
+  return result;
+}
+
+/**
+ * Texto del primer hijo con el nombre indicado (undefined si no existe)
+ */
+export function xmlChildText(element: XmlElement | undefined, name: string): string | undefined {
+  return xmlChild(element, name)?.text;
+}
+
+function findEnd(xml: string, terminator: string, from: number): number {
+  const index = xml.indexOf(terminator, from);
+  if (index === -1) {
+    throw new SvnError(`Failed to parse XML output: missing '${terminator}'`);
+  }
+  return index + terminator.length;
+}
+
+// Busca el '>' que cierra la etiqueta ignorando los que aparezcan dentro de valores de atributo
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from + 1; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  throw new SvnError(`Failed to parse XML output: unterminated tag at position ${from}`);
+}
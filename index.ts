@@ -2,81 +2,260 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { SetLevelRequestSchema, CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import { AsyncLocalStorage } from "async_hooks";
 
 // Import SVN service
 import { SvnService } from "./tools/svn-service.js";
-import { formatDuration } from "./common/utils.js";
+import { WorkingCopyRegistry } from "./tools/working-copy-registry.js";
+import { formatDuration, formatBytes, resolveRepositoryLayout, paginateByKey, nextLogRange, selectDiffSections, truncateToBytes, isLocalChange } from "./common/utils.js";
 
+import { SvnStatus, SvnProgress, SvnResponse, SvnPage, SvnLogEntry, SvnDiff } from "./common/types.js";
 import { VERSION } from "./common/version.js";
+import { logger } from "./common/logger.js";
+import { loadPolicy, isToolEnabled, requiresConfirmation, findReadOnlyViolation, ConfirmationStore } from "./common/policy.js";
 
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os'; 
 
 // Create the MCP Server with proper configuration
 const server = new McpServer({
   name: "svn-mcp-server",
   version: VERSION,
+}, {
+  capabilities: { logging: {} }
 });
 
-// Create SVN service instance (lazy initialization)
-let svnService: SvnService | null = null;
+// Forward log entries to the client once it asks for them with logging/setLevel
+server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+  logger.setClientLevel(request.params.level);
+  return {};
+});
 
-function logToFileParam(message: string, param: string): void {
-  const logDir = 'C:\\Logs';
-  const logFile = path.join(logDir, 'mcp_svn.log');
-  try {
-    if (!fs.existsSync(logDir)) {
-      fs.mkdirSync(logDir, { recursive: true });
+logger.setForwarder(({ level, message, timestamp, ...fields }) => {
+  server.server.sendLoggingMessage({ level, logger: "svn", data: { message, ...fields } }).catch(() => undefined);
+});
+
+// Registry of named working copies, each with its own SVN service (lazy initialization)
+let registry: WorkingCopyRegistry | null = null;
+
+function getRegistry(): WorkingCopyRegistry {
+  if (!registry) {
+    try {
+      registry = new WorkingCopyRegistry();
+    } catch (error: any) {
+      throw new Error(`SVN configuration error: ${error.message}`);
     }
-    const timestamp = new Date().toISOString();
-    fs.appendFileSync(logFile, `[${timestamp}] ${message}: ${param}${os.EOL}`);
-  } catch (err) {
-    // For debugging: print error to stderr
-    console.error('Failed to write to log file:', err);
   }
+  return registry;
 }
 
-function logToFile(m: string): void {
-  logToFileParam(m, "");
+function getSvnService(workingCopy?: string): SvnService {
+  return getRegistry().getService(workingCopy);
 }
 
+// SDK 1.6 does not hand the request _meta to tool callbacks, so runServer keeps
+// the progress token of each tools/call here for as long as its handler runs
+const progressTokens = new AsyncLocalStorage<string | number>();
 
-function getSvnService(): SvnService {
-  if (!svnService) {
-    try {
-      svnService = new SvnService();
-    } catch (error: any) {
-      throw new Error(`SVN configuration error: ${error.message}`);
-    }
+/**
+ * Progress callback for the current tool call, or undefined if the client sent no progress token
+ */
+function progressReporter(): ((progress: SvnProgress) => void) | undefined {
+  const progressToken = progressTokens.getStore();
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  // svn can print thousands of lines per second; a few notifications per second is enough
+  let lastSent = 0;
+  return (progress) => {
+    const now = Date.now();
+    if (now - lastSent < 250) return;
+    lastSent = now;
+    server.server.notification({
+      method: "notifications/progress",
+      params: { progressToken, progress: progress.processed, message: `${progress.action} ${progress.path}` }
+    }).catch(() => undefined);
+  };
+}
+
+/**
+ * Describe what a cancelled or timed out checkout/update/commit left behind
+ */
+function formatInterruption(operation: string, result: SvnResponse<string>): string {
+  const interruption = result.interruption!;
+  const reason = interruption.reason === 'cancelled' ? 'cancelled' : 'timed out';
+  let nextStep: string;
+
+  if (operation === 'Commit') {
+    nextStep = interruption.revision
+      ? `The commit had completed as revision ${interruption.revision}.`
+      : 'Nothing was committed. Run svn_cleanup if the working copy is locked, then commit again.';
+  } else {
+    nextStep = interruption.workingCopyLocked
+      ? 'Run svn_cleanup, then svn_update to finish.'
+      : 'Run svn_update to finish.';
+  }
+
+  const locked = interruption.workingCopyLocked === undefined ? 'unknown' : interruption.workingCopyLocked ? 'yes' : 'no';
+  const recent = interruption.recent.map(item => `- ${item.action} ${item.path}`).join('\n');
+
+  return `⏹️ **${operation} ${reason}**\n\n` +
+    `**Items processed:** ${interruption.processed}\n` +
+    `**Working copy locked:** ${locked}\n` +
+    `**Next step:** ${nextStep}\n` +
+    (recent ? `\n**Last items:**\n${recent}\n` : '') +
+    `\n**Command:** ${result.command}\n` +
+    `**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+}
+
+// Listings larger than this are split into pages (SVN_MAX_RESPONSE_BYTES, or maxBytes per call)
+const DEFAULT_MAX_RESPONSE_BYTES = parseInt(process.env.SVN_MAX_RESPONSE_BYTES || '', 10) || 40000;
+
+const maxBytesParam = z.number().int().positive().optional().describe(`Maximum size of the listing in bytes before it continues on another page (default ${DEFAULT_MAX_RESPONSE_BYTES})`);
+const cursorParam = z.string().optional().describe("Cursor from the previous page's truncation marker, to fetch the next page");
+
+/**
+ * Marker appended to a listing that continues on another page
+ */
+function truncationMarker(tool: string, page: SvnPage<unknown>, unit: string): string {
+  if (!page.nextCursor) return '';
+  return `\n\n✂️ **Truncated:** showing ${page.offset + 1}-${page.offset + page.items.length} of ${page.total} ${unit}. ` +
+    `Call ${tool} with the same arguments and cursor: "${page.nextCursor}" for the next page.`;
+}
+
+const workingCopyParam = z.string().optional().describe("Name of the working copy to use (see svn_working_copies); defaults to the selected one");
+
+// Startup policy: read-only mode, allowed/denied tools and two-step confirmation (SVN_READ_ONLY & co.)
+const policy = loadPolicy();
+const confirmations = new ConfirmationStore();
+const registeredTools: string[] = [];
+const disabledTools: string[] = [];
+
+const BATCH_OPERATION_TYPES = ['add', 'delete', 'move', 'copy', 'revert'];
+
+/**
+ * Whether a call needs a confirmation token. A batch asks whenever one of its
+ * operations would; without arguments, whenever any operation type could.
+ */
+function confirmationRequired(tool: string, args?: { operations?: Array<{ type: string }> }): boolean {
+  if (requiresConfirmation(policy, tool)) return true;
+  if (tool !== 'svn_batch') return false;
+  const types = args?.operations ? args.operations.map(operation => operation.type) : BATCH_OPERATION_TYPES;
+  return types.some(type => requiresConfirmation(policy, `svn_${type}`));
+}
+
+const describePaths = (paths: string | string[]) => (Array.isArray(paths) ? paths : [paths]).map(item => `• ${item}`).join('\n');
+
+
+const confirmationTokenParam = z.string().optional().describe("Token returned by the preview; pass it with the same arguments to run the tool");
+
+type ToolArgs<Shape extends z.ZodRawShape> = z.objectOutputType<Shape, z.ZodTypeAny>;
+type ToolHandler<Shape extends z.ZodRawShape> = (args: ToolArgs<Shape>, extra: RequestHandlerExtra) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Register a tool unless the startup policy disables it. Tools that need
+ * confirmation get a confirmationToken parameter: the first call returns a
+ * preview (from `preview`, or the arguments) and a token, and only a second
+ * call with the same arguments and that token runs the tool.
+ */
+function registerTool<Shape extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  schema: Shape,
+  handler: ToolHandler<Shape>,
+  preview?: (args: ToolArgs<Shape>) => Promise<string>
+): void {
+  if (!isToolEnabled(policy, name)) {
+    disabledTools.push(name);
+    return;
+  }
+  registeredTools.push(name);
+
+  // The SDK cannot check a handler against a generic shape; zod validates the arguments before they get here
+  const register = (toolDescription: string, toolSchema: z.ZodRawShape, toolHandler: ToolHandler<Shape>) =>
+    server.tool(name, toolDescription, toolSchema, toolHandler as ToolHandler<z.ZodRawShape>);
+
+  // Tools with their own confirmationToken (svn_merge) already run a preview first
+  if (!confirmationRequired(name) || 'confirmationToken' in schema) {
+    register(description, schema, handler);
+    return;
   }
-  return svnService;
+
+  register(
+    `${description}. Asks for confirmation: the first call returns a preview and a confirmationToken`,
+    { ...schema, confirmationToken: confirmationTokenParam },
+    async (args, extra) => {
+      const { confirmationToken, ...rest } = args as ToolArgs<Shape> & { confirmationToken?: string };
+      const toolArgs = rest as ToolArgs<Shape>;
+      if (!confirmationRequired(name, toolArgs)) {
+        return handler(toolArgs, extra);
+      }
+
+      try {
+        if (confirmationToken === undefined) {
+          const text = preview
+            ? await preview(toolArgs)
+            : `⚠️ **${name} Preview**\n\n\`\`\`json\n${JSON.stringify(toolArgs, null, 2)}\n\`\`\``;
+          const token = confirmations.issue(name, toolArgs);
+          logger.info(`Confirmation requested for ${name}`);
+          return {
+            content: [{ type: "text", text: `${text}\n\n**Nothing has been changed.** Call ${name} again with the same arguments and confirmationToken: "${token}" to proceed (valid for ${confirmations.ttlMinutes} minutes).` }],
+          };
+        }
+        if (!confirmations.consume(name, toolArgs, confirmationToken)) {
+          throw new Error(`Invalid or expired confirmation token for ${name}; the token is single-use and bound to the previewed arguments. Call ${name} without confirmationToken for a new preview`);
+        }
+      } catch (error: any) {
+        return {
+          content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+        };
+      }
+      return handler(toolArgs, extra);
+    }
+  );
 }
 
 // ----- MCP TOOLS FOR SUBVERSION (SVN) -----
 
 // 1. SVN System Health Check
-server.tool(
+registerTool(
   "svn_health_check",
-  "Check the health status of the SVN system and working copy",
-  {},
-  async () => {
+  "Check the health of the SVN client and working copy: conflicts, locks, interrupted operations, missing/obstructed files, mixed or stale revisions, switched subtrees, externals and format mismatches, each with a suggested fix",
+  {
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
     try {
-      logToFile("Running svn_health_check tool");
-      const result = await getSvnService().healthCheck();
-      
-      const data = result.data;
-      const statusIcon = data?.svnAvailable ? '✅' : '❌';
-      const wcIcon = data?.workingCopyValid ? '📁' : '📂';
-      const repoIcon = data?.repositoryAccessible ? '🔗' : '🔌';
-      
-      const healthText = `${statusIcon} **SVN System Status**\n\n` +
-        `**SVN Available:** ${data?.svnAvailable ? 'Yes' : 'No'}\n` +
-        `**Version:** ${data?.version || 'N/A'}\n` +
-        `${wcIcon} **Working Copy Valid:** ${data?.workingCopyValid ? 'Yes' : 'No'}\n` +
-        `${repoIcon} **Repository Accessible:** ${data?.repositoryAccessible ? 'Yes' : 'No'}\n` +
-        `**Working Directory:** ${result.workingDirectory}`;
+      logger.info("Running svn_health_check tool");
+      const result = await getSvnService(args.workingCopy).healthCheck();
+      const data = result.data!;
+
+      const statusIcons = { healthy: '✅', warning: '⚠️', error: '❌' };
+      const issueIcons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+      const revisionText = data.minRevision === undefined
+        ? 'N/A'
+        : data.minRevision === data.maxRevision ? `r${data.maxRevision}` : `r${data.minRevision}:r${data.maxRevision} (mixed)`;
+
+      const healthText = `${statusIcons[data.status]} **SVN Health: ${data.status.toUpperCase()}**\n\n` +
+        `**SVN Available:** ${data.svnAvailable ? 'Yes' : 'No'}\n` +
+        `**Version:** ${data.version || 'N/A'}\n` +
+        `**Working Copy Valid:** ${data.workingCopyValid ? 'Yes' : 'No'}\n` +
+        `**Repository Accessible:** ${data.repositoryAccessible ? 'Yes' : 'No'}\n` +
+        `**Working Copy Revision:** ${revisionText}\n` +
+        (data.headRevision !== undefined ? `**Last Change on Server:** r${data.headRevision}\n` : '') +
+        `**Conflicts:** ${data.conflictsDetected ? 'Yes' : 'No'}\n` +
+        `**Uncommitted Changes:** ${data.uncommittedChanges ? 'Yes' : 'No'}\n` +
+        `**Working Directory:** ${result.workingDirectory}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}` +
+        (data.issues.length > 0
+          ? `\n\n**Issues** (${data.issues.length})\n` +
+            data.issues.map((issue, index) =>
+              `${index + 1}. ${issueIcons[issue.type]} ${issue.message}${issue.path ? ` — \`${issue.path}\`` : ''}` +
+              (issue.suggestion ? `\n   💡 ${issue.suggestion}` : '')
+            ).join('\n')
+          : '\n\nNo issues found');
 
       return {
         content: [{ type: "text", text: healthText }],
@@ -90,14 +269,16 @@ server.tool(
 );
 
 // 1.1. Advanced SVN Command Diagnostics
-server.tool(
+registerTool(
   "svn_diagnose",
   "Diagnose specific problems with SVN commands",
-  {},
-  async () => {
+  {
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
     try {
-      logToFile("Running svn_diagnose tool");
-      const result = await getSvnService().diagnoseCommands();
+      logger.info("Running svn_diagnose tool");
+      const result = await getSvnService(args.workingCopy).diagnoseCommands();
       const data = result.data!;
       
       const statusLocalIcon = data.statusLocal ? '✅' : '❌';
@@ -138,16 +319,17 @@ server.tool(
 );
 
 // 2. Get repository information
-server.tool(
+registerTool(
   "svn_info",
   "Get detailed information about the working copy or a specific file",
   {
-    path: z.string().optional().describe("Specific path to query (optional)")
+    path: z.string().optional().describe("Specific path to query (optional)"),
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_info tool with path: ${args.path || 'current directory'}`);
-      const result = await getSvnService().getInfo(args.path);
+      logger.info(`Running svn_info tool with path: ${args.path || 'current directory'}`);
+      const result = await getSvnService(args.workingCopy).getInfo(args.path);
       const info = result.data!;
       
       const infoText = `📋 **SVN Information**\n\n` +
@@ -176,44 +358,87 @@ server.tool(
 );
 
 // 3. Get file status
-server.tool(
+registerTool(
   "svn_status",
-  "View the status of files in the working copy",
+  "View the status of files in the working copy, grouped by conflicts, changes, locks, switched paths and out-of-date files",
   {
     path: z.string().optional().describe("Specific path to query"),
-    showAll: z.boolean().optional().default(false).describe("Show remote status as well")
+    showAll: z.boolean().optional().default(false).describe("Show remote status as well (files with a newer version on the server and remote locks)"),
+    limit: z.number().int().positive().optional().default(200).describe("Maximum number of entries per page"),
+    cursor: cursorParam,
+    maxBytes: maxBytesParam,
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_status tool with path: ${args.path || 'current directory'}, showAll: ${args.showAll}`);
-      const result = await getSvnService().getStatus(args.path, args.showAll);
-      const statusList = result.data!;
+      logger.info(`Running svn_status tool with path: ${args.path || 'current directory'}, showAll: ${args.showAll}, cursor: ${args.cursor || 'none'}`);
+      const result = await getSvnService(args.workingCopy).getStatus(args.path, args.showAll);
       
-      if (statusList.length === 0) {
+      if (result.data!.length === 0) {
         return {
           content: [{ type: "text", text: "✅ **No changes in the working copy**" }],
         };
       }
 
-      const statusText = `📊 **SVN Status** (${statusList.length} items)\n\n` +
-        statusList.map(status => {
-          const statusIcon: {[key: string]: string} = {
-            'added': '➕',
-            'deleted': '➖',
-            'modified': '✏️',
-            'replaced': '🔄',
-            'merged': '🔀',
-            'conflicted': '⚠️',
-            'ignored': '🙈',
-            'none': '⚪',
-            'normal': '✅',
-            'external': '🔗',
-            'incomplete': '⏸️',
-            'unversioned': '❓',
-            'missing': '❌'
-          };
-          return `${statusIcon[status.status] || '📄'} **${status.status.toUpperCase()}** - ${status.path}`;
-        }).join('\n') +
+      const describe = (status: SvnStatus) => {
+        const details = [
+          status.revision !== undefined ? `r${status.revision}` : '',
+          status.changedRev !== undefined ? `last changed r${status.changedRev} by ${status.changedAuthor || 'unknown'}` : '',
+          status.propStatus === 'modified' ? 'properties modified' : '',
+          status.copied ? 'with history' : ''
+        ].filter(Boolean).join(', ');
+        return `• ${status.path}${details ? ` (${details})` : ''}`;
+      };
+
+      const page = paginateByKey(result.data!, {
+        key: status => status.path,
+        cursor: args.cursor,
+        limit: args.limit,
+        maxBytes: args.maxBytes || DEFAULT_MAX_RESPONSE_BYTES,
+        size: status => Buffer.byteLength(describe(status)) + 1
+      });
+      const statusList = page.items;
+
+      const groups: { title: string; entries: SvnStatus[]; line?: (status: SvnStatus) => string }[] = [
+        {
+          title: '⚠️ Conflicts',
+          entries: statusList.filter(s => s.status === 'conflicted' || s.propStatus === 'conflicted' || s.treeConflicted),
+          line: s => `• ${s.path} (${[
+            s.status === 'conflicted' ? 'text' : '',
+            s.propStatus === 'conflicted' ? 'property' : '',
+            s.treeConflicted ? 'tree' : ''
+          ].filter(Boolean).join(', ')})`
+        },
+        { title: '✏️ Modified', entries: statusList.filter(s => ['modified', 'replaced', 'merged'].includes(s.status) || (s.status === 'normal' && s.propStatus === 'modified')) },
+        { title: '➕ Added', entries: statusList.filter(s => s.status === 'added') },
+        { title: '➖ Deleted', entries: statusList.filter(s => s.status === 'deleted') },
+        { title: '❌ Missing / Obstructed', entries: statusList.filter(s => ['missing', 'obstructed', 'incomplete'].includes(s.status)), line: s => `• ${s.path} (${s.status})` },
+        { title: '❓ Unversioned', entries: statusList.filter(s => s.status === 'unversioned'), line: s => `• ${s.path}` },
+        { title: '🙈 Ignored', entries: statusList.filter(s => s.status === 'ignored'), line: s => `• ${s.path}` },
+        { title: '🔀 Switched', entries: statusList.filter(s => s.switched) },
+        { title: '🔗 Externals', entries: statusList.filter(s => s.status === 'external' || s.fileExternal), line: s => `• ${s.path}${s.fileExternal ? ' (file external)' : ''}` },
+        {
+          title: '🔒 Locks',
+          entries: statusList.filter(s => s.lock || s.remoteLock || s.workingCopyLocked),
+          line: s => `• ${s.path} (${[
+            s.lock ? `locked here by ${s.lock.owner || 'you'}` : '',
+            s.remoteLock && !s.lock ? `locked by ${s.remoteLock.owner} on the server` : '',
+            s.workingCopyLocked ? 'working copy locked, run svn_cleanup' : ''
+          ].filter(Boolean).join(', ')})`
+        },
+        {
+          title: '⬇️ Out of Date (newer version on the server)',
+          entries: statusList.filter(s => s.outOfDate),
+          line: s => `• ${s.path} (server: ${s.remoteStatus !== 'none' ? s.remoteStatus : 'properties ' + s.remotePropStatus})`
+        }
+      ];
+
+      const statusText = `📊 **SVN Status** (${page.total} items)\n\n` +
+        groups
+          .filter(group => group.entries.length > 0)
+          .map(group => `**${group.title}** (${group.entries.length})\n` + group.entries.map(group.line || describe).join('\n'))
+          .join('\n\n') +
+        truncationMarker('svn_status', page, 'entries') +
         `\n\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
 
       return {
@@ -228,34 +453,61 @@ server.tool(
 );
 
 // 4. Get change history
-server.tool(
+registerTool(
   "svn_log",
   "View commit history of the repository",
   {
     path: z.string().optional().describe("Specific path"),
     limit: z.number().optional().default(10).describe("Maximum number of entries"),
-    revision: z.string().optional().describe("Specific revision or range (e.g. 100:200)")
+    revision: z.string().optional().describe("Specific revision or range (e.g. 100:200)"),
+    includeChangedPaths: z.boolean().optional().default(false).describe("Include the paths changed in each revision, with copy sources"),
+    cursor: cursorParam,
+    maxBytes: maxBytesParam,
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_log tool with path: ${args.path || 'current directory'}, limit: ${args.limit}, revision: ${args.revision || 'all'}`);
-      const result = await getSvnService().getLog(args.path, args.limit, args.revision);
-      const logEntries = result.data!;
+      logger.info(`Running svn_log tool with path: ${args.path || 'current directory'}, limit: ${args.limit}, revision: ${args.revision || 'all'}, includeChangedPaths: ${args.includeChangedPaths}, cursor: ${args.cursor || 'none'}`);
+      // The cursor is the revision range that continues the previous page; one extra entry tells whether more follow
+      const range = args.cursor || args.revision;
+      const result = await getSvnService(args.workingCopy).getLog(args.path, args.limit + 1, range, args.includeChangedPaths);
+      const fetched = result.data!;
       
-      if (logEntries.length === 0) {
+      if (fetched.length === 0) {
         return {
           content: [{ type: "text", text: "📝 **No log entries found**" }],
         };
       }
 
-      const logText = `📚 **SVN History** (${logEntries.length} entries)\n\n` +
-        logEntries.map((entry, index) => 
-          `**${index + 1}. Revision ${entry.revision}**\n` +
-          `👤 **Author:** ${entry.author}\n` +
+      const renderEntry = (entry: SvnLogEntry, index: number) => {
+        let entryText = `**${index + 1}. Revision ${entry.revision}**\n` +
+          `👤 **Author:** ${entry.author || 'No author'}\n` +
           `📅 **Date:** ${entry.date}\n` +
-          `💬 **Message:** ${entry.message || 'No message'}\n` +
-          `---`
-        ).join('\n\n') +
+          `💬 **Message:** ${entry.message || 'No message'}\n`;
+        if (entry.changedPaths && entry.changedPaths.length > 0) {
+          entryText += `📂 **Changed Paths:**\n` + entry.changedPaths.map(changed =>
+            `  ${changed.action} ${changed.path}` +
+            (changed.copyFromPath ? ` (from ${changed.copyFromPath}@${changed.copyFromRev})` : '')
+          ).join('\n') + '\n';
+        }
+        return entryText + `---`;
+      };
+
+      const page = paginateByKey(fetched.slice(0, args.limit), {
+        key: entry => String(entry.revision),
+        maxBytes: args.maxBytes || DEFAULT_MAX_RESPONSE_BYTES,
+        size: entry => Buffer.byteLength(renderEntry(entry, 0)) + 2
+      });
+      const logEntries = page.items;
+      const following = fetched[logEntries.length];
+      const nextCursor = following ? nextLogRange(logEntries[logEntries.length - 1], following, range) : undefined;
+
+      const logText = `📚 **SVN History** (${logEntries.length} entries)\n\n` +
+        logEntries.map(renderEntry).join('\n\n') +
+        (nextCursor
+          ? `\n\n✂️ **Truncated:** more revisions follow r${logEntries[logEntries.length - 1].revision}. ` +
+            `Call svn_log with the same arguments and cursor: "${nextCursor}" for the next page.\n`
+          : '') +
         `\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
 
       return {
@@ -270,18 +522,24 @@ server.tool(
 );
 
 // 5. View differences
-server.tool(
+registerTool(
   "svn_diff",
   "View differences between file versions",
   {
     path: z.string().optional().describe("Specific path"),
     oldRevision: z.string().optional().describe("Old revision"),
-    newRevision: z.string().optional().describe("New revision")
+    newRevision: z.string().optional().describe("New revision"),
+    format: z.enum(["unified", "structured"]).optional().default("unified").describe("'unified' for the raw diff, 'structured' for per-file hunks with line numbers as JSON"),
+    summary: z.boolean().optional().default(false).describe("Only list the changed files with their line counts; then request specific ones with files"),
+    files: z.array(z.string()).optional().describe("Only show these files of the diff (paths as listed in the summary)"),
+    cursor: cursorParam,
+    maxBytes: maxBytesParam,
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_diff tool with path: ${args.path}, oldRevision: ${args.oldRevision}, newRevision: ${args.newRevision}`);
-      const result = await getSvnService().getDiff(args.path, args.oldRevision, args.newRevision);
+      logger.info(`Running svn_diff tool with path: ${args.path}, oldRevision: ${args.oldRevision}, newRevision: ${args.newRevision}, format: ${args.format}, summary: ${args.summary}, cursor: ${args.cursor || 'none'}`);
+      const result = await getSvnService(args.workingCopy).getDiff(args.path, args.oldRevision, args.newRevision);
       const diffOutput = result.data!;
       
       if (!diffOutput || diffOutput.trim().length === 0) {
@@ -290,10 +548,44 @@ server.tool(
         };
       }
 
-      const diffText = `🔍 **Diferencias SVN**\n\n` +
+      // Paginated by file: each section keeps its raw text and its parsed stats
+      const sections = selectDiffSections(diffOutput, args.files);
+
+      const maxBytes = args.maxBytes || DEFAULT_MAX_RESPONSE_BYTES;
+      const statLine = ({ path, file }: { path: string; file: SvnDiff }) => {
+        const kind = file.binary ? 'binary' : file.changeType;
+        const props = file.propertyChanges?.length ? `, ${file.propertyChanges.length} property changes` : '';
+        return `• ${path} (${kind}) +${file.additions} -${file.deletions}${props}`;
+      };
+      const body = (section: { text: string; file: SvnDiff }) =>
+        args.format === 'structured' ? JSON.stringify(section.file, null, 2) : section.text;
+
+      const page = paginateByKey(sections, {
+        key: section => section.path,
+        cursor: args.cursor,
+        maxBytes,
+        size: section => Buffer.byteLength(statLine(section)) + (args.summary ? 1 : Buffer.byteLength(body(section)) + 1)
+      });
+
+      let diffText = `🔍 **Diferencias SVN** (${sections.length} archivos)\n\n` +
         `**Comando:** ${result.command}\n` +
         `**Tiempo de Ejecución:** ${formatDuration(result.executionTime || 0)}\n\n` +
-        `\`\`\`diff\n${diffOutput}\n\`\`\``;
+        `**Archivos:**\n${page.items.map(statLine).join('\n')}`;
+
+      if (args.summary) {
+        diffText += `\n\nCall svn_diff with the same arguments and files: [...] to see the changes of specific files.`;
+      } else {
+        // A single file larger than the limit is cut rather than skipped
+        const { content, truncated } = truncateToBytes(page.items.map(body).join(args.format === 'structured' ? ',\n' : '\n'), maxBytes);
+        const marker = truncated
+          ? `\n\n✂️ **Truncated:** the diff of ${page.items[0].path} exceeds ${formatBytes(maxBytes)}; raise maxBytes to see all of it.`
+          : '';
+        diffText += args.format === 'structured'
+          ? `\n\n\`\`\`json\n[${content}]\n\`\`\`${marker}`
+          : `\n\n\`\`\`diff\n${content}\n\`\`\`${marker}`;
+      }
+
+      diffText += truncationMarker('svn_diff', page, 'files');
 
       return {
         content: [{ type: "text", text: diffText }],
@@ -307,7 +599,7 @@ server.tool(
 );
 
 // 6. Repository checkout
-server.tool(
+registerTool(
   "svn_checkout",
   "Checkout an SVN repository",
   {
@@ -316,19 +608,27 @@ server.tool(
     revision: z.union([z.number(), z.literal("HEAD")]).optional().describe("Specific revision"),
     depth: z.enum(["empty", "files", "immediates", "infinity"]).optional().describe("Checkout depth"),
     force: z.boolean().optional().default(false).describe("Force checkout"),
-    ignoreExternals: z.boolean().optional().default(false).describe("Ignore externals")
+    ignoreExternals: z.boolean().optional().default(false).describe("Ignore externals"),
+    workingCopy: workingCopyParam
   },
-  async (args) => {
+  async (args, extra) => {
     try {
-      logToFile(`Running svn_checkout tool with URL: ${args.url}, path: ${args.path || 'current directory'}, revision: ${args.revision || 'HEAD'}`);
+      logger.info(`Running svn_checkout tool with URL: ${args.url}, path: ${args.path || 'current directory'}, revision: ${args.revision || 'HEAD'}`);
       const options = {
         revision: args.revision,
         depth: args.depth,
         force: args.force,
-        ignoreExternals: args.ignoreExternals
+        ignoreExternals: args.ignoreExternals,
+        signal: extra.signal,
+        onProgress: progressReporter()
       };
       
-      const result = await getSvnService().checkout(args.url, args.path, options);
+      const result = await getSvnService(args.workingCopy).checkout(args.url, args.path, options);
+      if (result.interruption) {
+        return {
+          content: [{ type: "text", text: formatInterruption('Checkout', result) }],
+        };
+      }
       
       const checkoutText = `📥 **Checkout Completado**\n\n` +
         `**URL:** ${args.url}\n` +
@@ -349,7 +649,7 @@ server.tool(
 );
 
 // 7. Actualizar working copy
-server.tool(
+registerTool(
   "svn_update",
   "Actualizar working copy desde el repositorio",
   {
@@ -357,19 +657,27 @@ server.tool(
     revision: z.union([z.number(), z.literal("HEAD"), z.literal("BASE"), z.literal("COMMITTED"), z.literal("PREV")]).optional().describe("Revisión objetivo"),
     force: z.boolean().optional().default(false).describe("Forzar actualización"),
     ignoreExternals: z.boolean().optional().default(false).describe("Ignorar externals"),
-    acceptConflicts: z.enum(["postpone", "base", "mine-conflict", "theirs-conflict", "mine-full", "theirs-full"]).optional().describe("Como manejar conflictos")
+    acceptConflicts: z.enum(["postpone", "base", "mine-conflict", "theirs-conflict", "mine-full", "theirs-full"]).optional().describe("Como manejar conflictos"),
+    workingCopy: workingCopyParam
   },
-  async (args) => {
+  async (args, extra) => {
     try {
-      logToFile(`Running svn_update tool with path: ${args.path || 'current directory'}, revision: ${args.revision || 'HEAD'}`);
+      logger.info(`Running svn_update tool with path: ${args.path || 'current directory'}, revision: ${args.revision || 'HEAD'}`);
       const options = {
         revision: args.revision,
         force: args.force,
         ignoreExternals: args.ignoreExternals,
-        acceptConflicts: args.acceptConflicts
+        acceptConflicts: args.acceptConflicts,
+        signal: extra.signal,
+        onProgress: progressReporter()
       };
       
-      const result = await getSvnService().update(args.path, options);
+      const result = await getSvnService(args.workingCopy).update(args.path, options);
+      if (result.interruption) {
+        return {
+          content: [{ type: "text", text: formatInterruption('Update', result) }],
+        };
+      }
       
       const updateText = `🔄 **Actualización Completada**\n\n` +
         `**Ruta:** ${args.path || 'Directorio actual'}\n` +
@@ -389,7 +697,7 @@ server.tool(
 );
 
 // 8. Añadir archivos
-server.tool(
+registerTool(
   "svn_add",
   "Añadir archivos al control de versiones",
   {
@@ -398,11 +706,12 @@ server.tool(
     noIgnore: z.boolean().optional().default(false).describe("No respetar reglas de ignore"),
     parents: z.boolean().optional().default(false).describe("Crear directorios padre si es necesario"),
     autoProps: z.boolean().optional().describe("Aplicar auto-propiedades"),
-    noAutoProps: z.boolean().optional().describe("No aplicar auto-propiedades")
+    noAutoProps: z.boolean().optional().describe("No aplicar auto-propiedades"),
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_add tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
+      logger.info(`Running svn_add tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
       const options = {
         force: args.force,
         noIgnore: args.noIgnore,
@@ -411,7 +720,7 @@ server.tool(
         noAutoProps: args.noAutoProps
       };
       
-      const result = await getSvnService().add(args.paths, options);
+      const result = await getSvnService(args.workingCopy).add(args.paths, options);
       const pathsArray = Array.isArray(args.paths) ? args.paths : [args.paths];
       
       const addText = `➕ **Archivos Añadidos**\n\n` +
@@ -432,7 +741,7 @@ server.tool(
 );
 
 // 9. Commit de cambios
-server.tool(
+registerTool(
   "svn_commit",
   "Confirmar cambios al repositorio",
   {
@@ -441,20 +750,28 @@ server.tool(
     file: z.string().optional().describe("Archivo con mensaje de commit"),
     force: z.boolean().optional().default(false).describe("Forzar commit"),
     keepLocks: z.boolean().optional().default(false).describe("Mantener locks después del commit"),
-    noUnlock: z.boolean().optional().default(false).describe("No desbloquear archivos")
+    noUnlock: z.boolean().optional().default(false).describe("No desbloquear archivos"),
+    workingCopy: workingCopyParam
   },
-  async (args) => {
+  async (args, extra) => {
     try {
-      logToFile(`Running svn_commit tool with message: ${args.message}, paths: ${args.paths?.join(', ') || 'all changes'}`);
+      logger.info(`Running svn_commit tool with message: ${args.message}, paths: ${args.paths?.join(', ') || 'all changes'}`);
       const options = {
         message: args.message,
         file: args.file,
         force: args.force,
         keepLocks: args.keepLocks,
-        noUnlock: args.noUnlock
+        noUnlock: args.noUnlock,
+        signal: extra.signal,
+        onProgress: progressReporter()
       };
       
-      const result = await getSvnService().commit(options, args.paths);
+      const result = await getSvnService(args.workingCopy).commit(options, args.paths);
+      if (result.interruption) {
+        return {
+          content: [{ type: "text", text: formatInterruption('Commit', result) }],
+        };
+      }
       
       const commitText = `✅ **Commit Realizado**\n\n` +
         `**Mensaje:** ${args.message}\n` +
@@ -475,25 +792,26 @@ server.tool(
 );
 
 // 10. Delete files
-server.tool(
+registerTool(
   "svn_delete",
   "Delete files from version control",
   {
-    paths: z.union([z.string(), z.array(z.string())]).describe("File(s) or directory(ies) to delete"),
-    message: z.string().optional().describe("Message for direct repository deletion"),
+    paths: z.union([z.string(), z.array(z.string())]).describe("File(s) or directory(ies) to delete, or repository URLs"),
+    message: z.string().optional().describe("Commit message, required when deleting URLs"),
     force: z.boolean().optional().default(false).describe("Force deletion"),
-    keepLocal: z.boolean().optional().default(false).describe("Keep local copy")
+    keepLocal: z.boolean().optional().default(false).describe("Keep local copy"),
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_delete tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
+      logger.info(`Running svn_delete tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
       const options = {
         message: args.message,
         force: args.force,
         keepLocal: args.keepLocal
       };
       
-      const result = await getSvnService().delete(args.paths, options);
+      const result = await getSvnService(args.workingCopy).delete(args.paths, options);
       const pathsArray = Array.isArray(args.paths) ? args.paths : [args.paths];
       
       const deleteText = `🗑️ **Files Deleted**\n\n` +
@@ -511,20 +829,28 @@ server.tool(
         content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
       };
     }
+  },
+  async (args) => {
+    const paths = Array.isArray(args.paths) ? args.paths : [args.paths];
+    return `🗑️ **Delete Preview**\n\n` +
+      paths.map(item => /^[a-z][a-z0-9+.-]*:\/\//i.test(item)
+        ? `• ${item} (removed from the repository immediately)`
+        : `• ${item} (scheduled for deletion${args.keepLocal ? ', local copy kept' : ', local copy removed'})`).join('\n');
   }
 );
 
 // 11. Revertir cambios
-server.tool(
+registerTool(
   "svn_revert",
   "Revertir cambios locales en archivos",
   {
-    paths: z.union([z.string(), z.array(z.string())]).describe("Archivo(s) o directorio(s) a revertir")
+    paths: z.union([z.string(), z.array(z.string())]).describe("Archivo(s) o directorio(s) a revertir"),
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_revert tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
-      const result = await getSvnService().revert(args.paths);
+      logger.info(`Running svn_revert tool with paths: ${Array.isArray(args.paths) ? args.paths.join(', ') : args.paths}`);
+      const result = await getSvnService(args.workingCopy).revert(args.paths);
       const pathsArray = Array.isArray(args.paths) ? args.paths : [args.paths];
       
       const revertText = `↩️ **Cambios Revertidos**\n\n` +
@@ -541,20 +867,33 @@ server.tool(
         content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
       };
     }
+  },
+  async (args) => {
+    const service = getSvnService(args.workingCopy);
+    const paths = Array.isArray(args.paths) ? args.paths : [args.paths];
+    const changes: SvnStatus[] = [];
+    for (const item of paths) {
+      changes.push(...(await service.getStatus(item)).data!.filter(isLocalChange));
+    }
+    return `↩️ **Revert Preview**\n\n**Paths:**\n${describePaths(paths)}\n\n` +
+      (changes.length > 0
+        ? `**Local changes that will be lost (${changes.length}):**\n` + changes.map(status => `• ${status.status} ${status.path}`).join('\n')
+        : '**No local changes found under these paths.**');
   }
 );
 
 // 12. Limpiar working copy
-server.tool(
+registerTool(
   "svn_cleanup",
   "Limpiar working copy de operaciones interrumpidas",
   {
-    path: z.string().optional().describe("Ruta específica a limpiar")
+    path: z.string().optional().describe("Ruta específica a limpiar"),
+    workingCopy: workingCopyParam
   },
   async (args) => {
     try {
-      logToFile(`Running svn_cleanup tool with path: ${args.path || 'current directory'}`);
-      const result = await getSvnService().cleanup(args.path);
+      logger.info(`Running svn_cleanup tool with path: ${args.path || 'current directory'}`);
+      const result = await getSvnService(args.workingCopy).cleanup(args.path);
       
       const cleanupText = `🧹 **Cleanup Completado**\n\n` +
         `**Ruta:** ${args.path || 'Directorio actual'}\n` +
@@ -574,14 +913,16 @@ server.tool(
 );
 
 // 13. Clear SVN credentials cache (to resolve E215004 errors)
-server.tool(
+registerTool(
   "svn_clear_credentials",
   "Clear SVN credentials cache to resolve authentication errors",
-  {},
-  async () => {
-    logToFile("Running svn_clear_credentials tool");
+  {
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    logger.info("Running svn_clear_credentials tool");
     try {
-      const result = await getSvnService().clearCredentials();
+      const result = await getSvnService(args.workingCopy).clearCredentials();
       
       const clearText = `🔐 **SVN Credentials Cache Cleared**\n\n` +
         `**Command:** ${result.command}\n` +
@@ -599,67 +940,1379 @@ server.tool(
         content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
       };
     }
+  },
+  async () =>
+    `🔐 **Clear Credentials Preview**\n\nThe credentials cached by the svn client on this machine will be removed (svn auth --remove); later commands need SVN_USERNAME/SVN_PASSWORD or SVN_CREDENTIALS.`
+);
+
+// 14. Blame / annotate a file
+registerTool(
+  "svn_blame",
+  "Show the revision, author and date that last changed each line of a file",
+  {
+    path: z.string().describe("File path or URL"),
+    revision: z.union([z.number(), z.literal("HEAD"), z.literal("BASE"), z.literal("COMMITTED"), z.literal("PREV")]).optional().describe("Peg revision of the file"),
+    startLine: z.number().int().positive().optional().describe("First line to show (1-based)"),
+    endLine: z.number().int().positive().optional().describe("Last line to show (inclusive)"),
+    includeMessages: z.boolean().optional().default(false).describe("Include the log message of each revision that appears"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_blame tool with path: ${args.path}, revision: ${args.revision || 'working copy'}, lines: ${args.startLine || 1}-${args.endLine || 'end'}`);
+      const service = getSvnService(args.workingCopy);
+      const result = await service.blame(args.path, {
+        revision: args.revision,
+        startLine: args.startLine,
+        endLine: args.endLine
+      });
+      const blame = result.data!;
+
+      if (blame.lines.length === 0) {
+        return {
+          content: [{ type: "text", text: "📝 **No lines found in the requested range**" }],
+        };
+      }
+
+      let blameText = `🕵️ **SVN Blame** - ${blame.path} (${blame.lines.length} lines)\n\n` +
+        `\`\`\`\n` +
+        blame.lines.map(line =>
+          `${String(line.lineNumber).padStart(5)} ${(line.revision ? `r${line.revision}` : 'local').padStart(8)} ${line.author.padEnd(15)} ${line.content}`
+        ).join('\n') +
+        `\n\`\`\``;
+
+      if (args.includeMessages) {
+        const revisions = [...new Set(blame.lines.map(line => line.revision).filter(rev => rev > 0))];
+        blameText += `\n\n**Revisions:**\n`;
+        if (revisions.length > 0) {
+          try {
+            const log = await service.getLogEntries(args.path, revisions, args.revision);
+            const entries = new Map(log.data!.map(entry => [entry.revision, entry]));
+            for (const revision of revisions) {
+              const entry = entries.get(revision);
+              blameText += `• **r${revision}** (${entry?.author || 'unknown'}, ${entry?.date || 'unknown'}): ${entry?.message || 'No message'}\n`;
+            }
+          } catch (error: any) {
+            blameText += `• log not available (${error.message})\n`;
+          }
+        }
+      }
+
+      blameText += `\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: blameText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
   }
 );
 
-async function runServer() {
-  try {
+// 15. List branches and tags
+registerTool(
+  "svn_branch_list",
+  "List the branches (or tags) of the project with their last-changed metadata",
+  {
+    kind: z.enum(["branches", "tags"]).optional().default("branches").describe("List branches or tags"),
+    includeTrunk: z.boolean().optional().default(true).describe("Include trunk in the list"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_branch_list tool with kind: ${args.kind}, includeTrunk: ${args.includeTrunk}`);
+      const service = getSvnService(args.workingCopy);
+      const layout = (await service.getRepositoryLayout()).data!;
+      const result = await service.listBranches(args.kind, args.kind === 'branches' && args.includeTrunk);
+      const branches = result.data!;
 
-    logToFile("Starting SVN MCP Server...");
-    logToFile("Creating SVN MCP Server...");
-    logToFile("Server info: svn-mcp-server");
-    logToFileParam("Version:", VERSION);
-    
-    // Validate environment variables
-    if (!process.env.SVN_PATH) {
-      logToFile("Info: SVN_PATH environment variable not set, using 'svn' from PATH");
-    } else {
-      logToFileParam("SVN_PATH:", process.env.SVN_PATH);
+      let branchText = `🌿 **SVN ${args.kind === 'tags' ? 'Tags' : 'Branches'}** (${branches.length})\n\n` +
+        `**Project Root:** ${layout.projectRoot}\n` +
+        `**Current:** ${layout.currentBranch || 'Unknown (non-standard layout)'}\n\n`;
+
+      if (branches.length === 0) {
+        branchText += `No ${args.kind} found under ${args.kind === 'tags' ? layout.tagsUrl : layout.branchesUrl}\n`;
+      } else {
+        branchText += branches.map(branch => {
+          const current = layout.currentBranch === branch.name || layout.currentBranch === `${args.kind}/${branch.name}`;
+          return `${current ? '👉' : '•'} **${branch.name}** - r${branch.lastChangedRev} by ${branch.lastChangedAuthor} (${branch.lastChangedDate})\n` +
+            `  ${branch.url}`;
+        }).join('\n') + '\n';
+      }
+
+      branchText += `\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: branchText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
     }
-    
-    if (!process.env.SVN_WORKING_DIRECTORY) {
-      logToFile("Info: SVN_WORKING_DIRECTORY not set, using current directory");
-    } else {
-      logToFileParam("SVN_WORKING_DIRECTORY:", process.env.SVN_WORKING_DIRECTORY);
+  }
+);
+
+// 16. Create a branch
+registerTool(
+  "svn_branch_create",
+  "Create a new branch with a server-side copy (trunk by default)",
+  {
+    name: z.string().describe("Branch name, created under branches/"),
+    source: z.string().optional().describe("Source: 'trunk' (default), 'branches/<name>', 'tags/<name>', a branch name or a full URL"),
+    message: z.string().optional().describe("Commit message for the copy"),
+    revision: z.union([z.number(), z.literal("HEAD")]).optional().describe("Source revision"),
+    parents: z.boolean().optional().default(false).describe("Create intermediate directories"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_branch_create tool with name: ${args.name}, source: ${args.source || 'trunk'}`);
+      const result = await getSvnService(args.workingCopy).createBranch(args.name, args.source, {
+        message: args.message,
+        revision: args.revision,
+        parents: args.parents
+      });
+
+      const branchText = `🌱 **Branch Created**\n\n` +
+        `**Name:** ${args.name}\n` +
+        `**Source:** ${args.source || 'trunk'}${args.revision ? `@${args.revision}` : ''}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: branchText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
     }
-    
-    if (process.env.SVN_USERNAME) {
-      logToFileParam("SVN_USERNAME:", process.env.SVN_USERNAME);
+  }
+);
+
+// 17. Create a tag
+registerTool(
+  "svn_tag_create",
+  "Create a new tag with a server-side copy (trunk by default)",
+  {
+    name: z.string().describe("Tag name, created under tags/"),
+    source: z.string().optional().describe("Source: 'trunk' (default), 'branches/<name>', a branch name or a full URL"),
+    message: z.string().optional().describe("Commit message for the copy"),
+    revision: z.union([z.number(), z.literal("HEAD")]).optional().describe("Source revision"),
+    parents: z.boolean().optional().default(false).describe("Create intermediate directories"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_tag_create tool with name: ${args.name}, source: ${args.source || 'trunk'}`);
+      const result = await getSvnService(args.workingCopy).createTag(args.name, args.source, {
+        message: args.message,
+        revision: args.revision,
+        parents: args.parents
+      });
+
+      const tagText = `🏷️ **Tag Created**\n\n` +
+        `**Name:** ${args.name}\n` +
+        `**Source:** ${args.source || 'trunk'}${args.revision ? `@${args.revision}` : ''}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: tagText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
     }
-    
-    if (process.env.SVN_PASSWORD) {
-      logToFileParam("SVN_PASSWORD:", "***");
+  }
+);
+
+// 18. Merge (dry run first, then confirmed merge)
+registerTool(
+  "svn_merge",
+  "Merge a branch into the working copy. The first call only previews the merge (dry run) and returns a confirmationToken; call again with the same arguments and that token to apply it",
+  {
+    source: z.string().describe("Source: 'trunk', 'branches/<name>', '^/path', a branch name or a full URL"),
+    path: z.string().optional().describe("Working copy path to merge into (defaults to the working copy root)"),
+    revisions: z.array(z.number().int().positive()).optional().describe("Cherry-pick these revisions (svn merge -c)"),
+    revisionRange: z.string().optional().describe("Revision range to merge, e.g. 100:200"),
+    reintegrate: z.boolean().optional().default(false).describe("Reintegrate a feature branch into its parent"),
+    recordOnly: z.boolean().optional().default(false).describe("Only record the merge in svn:mergeinfo"),
+    ignoreAncestry: z.boolean().optional().default(false).describe("Ignore ancestry when calculating differences"),
+    acceptConflicts: z.enum(["postpone", "base", "mine-conflict", "theirs-conflict", "mine-full", "theirs-full"]).optional().describe("How to handle conflicts (default: postpone)"),
+    confirmationToken: z.string().optional().describe("Token returned by the dry run; pass it with the same arguments to apply the merge"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_merge tool with source: ${args.source}, path: ${args.path || 'working copy'}, confirmed: ${args.confirmationToken !== undefined}`);
+      // The merge is applied only with the token of a dry run of exactly these arguments
+      const { confirmationToken, ...mergeArgs } = args;
+      if (confirmationToken !== undefined && !confirmations.consume("svn_merge", mergeArgs, confirmationToken)) {
+        throw new Error("Invalid or expired confirmation token for svn_merge; the token is single-use and bound to the arguments of its dry run. Call svn_merge without confirmationToken for a new preview");
+      }
+
+      const result = await getSvnService(args.workingCopy).merge(args.source, args.path, {
+        dryRun: confirmationToken === undefined,
+        revisions: args.revisions,
+        revisionRange: args.revisionRange,
+        reintegrate: args.reintegrate,
+        recordOnly: args.recordOnly,
+        ignoreAncestry: args.ignoreAncestry,
+        acceptConflicts: args.acceptConflicts
+      });
+      const merge = result.data!;
+
+      const actionIcon: {[key: string]: string} = {
+        'added': '➕',
+        'deleted': '➖',
+        'updated': '✏️',
+        'merged': '🔀',
+        'replaced': '🔄',
+        'conflicted': '⚠️',
+        'existed': '📄'
+      };
+
+      let mergeText = merge.dryRun
+        ? `🔍 **Merge Preview (dry run)** - ${merge.changes.length} files would change\n\n`
+        : `🔀 **Merge Completed** - ${merge.changes.length} files changed\n\n`;
+
+      mergeText += `**Source:** ${args.source}\n` +
+        `**Target:** ${args.path || 'Working copy root'}\n`;
+
+      if (args.revisions?.length) {
+        mergeText += `**Revisions:** ${args.revisions.map(rev => `r${rev}`).join(', ')}\n`;
+      } else if (args.revisionRange) {
+        mergeText += `**Revision Range:** ${args.revisionRange}\n`;
+      }
+
+      if (merge.changes.length > 0) {
+        mergeText += `\n**Files:**\n` + merge.changes.map(change => {
+          const details = [
+            change.propertyAction ? `properties ${change.propertyAction}` : '',
+            change.treeConflict ? 'tree conflict' : ''
+          ].filter(Boolean).join(', ');
+          const label = change.action ? `${actionIcon[change.action] || '📄'} **${change.action.toUpperCase()}**` : '🏷️ **PROPERTIES**';
+          return `${label} - ${change.path}${details ? ` (${details})` : ''}`;
+        }).join('\n') + '\n';
+      }
+
+      if (merge.mergeinfoPaths.length > 0) {
+        mergeText += `\n**Mergeinfo recorded on:** ${merge.mergeinfoPaths.join(', ')}\n`;
+      }
+
+      if (merge.conflicts.length > 0) {
+        mergeText += `\n⚠️ **Conflicts (${merge.conflicts.length}):**\n` +
+          merge.conflicts.map(path => `• ${path}`).join('\n') + '\n';
+      }
+
+      if (merge.dryRun) {
+        const token = confirmations.issue("svn_merge", mergeArgs);
+        mergeText += `\n**Nothing has been changed.** Call svn_merge again with the same arguments and confirmationToken: "${token}" to apply this merge (valid for ${confirmations.ttlMinutes} minutes).\n`;
+      }
+
+      mergeText += `\n**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: mergeText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 19. Merge tracking information
+registerTool(
+  "svn_mergeinfo",
+  "Show which revisions of a source branch are already merged into a target and which are still eligible",
+  {
+    source: z.string().describe("Source: 'trunk', 'branches/<name>', '^/path', a branch name or a full URL"),
+    target: z.string().optional().describe("Target branch, URL or working copy path (defaults to the working copy)"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_mergeinfo tool with source: ${args.source}, target: ${args.target || 'working copy'}`);
+      const result = await getSvnService(args.workingCopy).getMergeInfo(args.source, args.target);
+      const mergeInfo = result.data!;
+
+      const formatRevisions = (revisions: number[]) =>
+        revisions.length > 0 ? revisions.map(rev => `r${rev}`).join(', ') : 'None';
+
+      const mergeInfoText = `🔀 **SVN Merge Info**\n\n` +
+        `**Source:** ${mergeInfo.sourcePath}\n` +
+        `**Target:** ${args.target || 'Working copy'}\n\n` +
+        `✅ **Merged (${mergeInfo.mergedRevisions.length}):** ${formatRevisions(mergeInfo.mergedRevisions)}\n` +
+        `⏳ **Eligible (${mergeInfo.eligibleRevisions.length}):** ${formatRevisions(mergeInfo.eligibleRevisions)}\n\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: mergeInfoText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 20. Switch working copy to another branch
+registerTool(
+  "svn_switch",
+  "Switch the working copy (or a subtree) to another branch URL",
+  {
+    target: z.string().describe("Target: 'trunk', 'branches/<name>', 'tags/<name>', '^/path', a branch name or a full URL"),
+    path: z.string().optional().describe("Subtree of the working copy to switch (defaults to the whole working copy)"),
+    revision: z.union([z.number(), z.literal("HEAD")]).optional().describe("Revision to switch to"),
+    force: z.boolean().optional().default(false).describe("Force the switch over obstructing unversioned files"),
+    ignoreExternals: z.boolean().optional().default(false).describe("Ignore externals"),
+    acceptConflicts: z.enum(["postpone", "base", "mine-conflict", "theirs-conflict", "mine-full", "theirs-full"]).optional().describe("How to handle conflicts (default: postpone)"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_switch tool with target: ${args.target}, path: ${args.path || 'working copy'}, revision: ${args.revision || 'HEAD'}`);
+      const result = await getSvnService(args.workingCopy).switch(args.target, args.path, {
+        revision: args.revision,
+        force: args.force,
+        ignoreExternals: args.ignoreExternals,
+        acceptConflicts: args.acceptConflicts
+      });
+      const data = result.data!;
+
+      const switchText = `🔀 **Switch Completed**\n\n` +
+        `**Path:** ${args.path || 'Working copy root'}\n` +
+        `**Before:** ${data.previousUrl}\n` +
+        `**After:** ${data.currentUrl}\n` +
+        `**Revision:** ${data.revision}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${data.output}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: switchText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 21. Relocate working copy to a new server URL
+registerTool(
+  "svn_relocate",
+  "Point the working copy at a new repository root URL (e.g. after a server hostname change)",
+  {
+    toUrl: z.string().describe("New repository URL or URL prefix"),
+    fromUrl: z.string().optional().describe("Old URL prefix to replace (optional)"),
+    path: z.string().optional().describe("Working copy path (defaults to the working copy root)"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_relocate tool with toUrl: ${args.toUrl}, fromUrl: ${args.fromUrl || 'current'}`);
+      const result = await getSvnService(args.workingCopy).relocate(args.toUrl, args.fromUrl, args.path);
+      const data = result.data!;
+
+      const relocateText = `🚚 **Relocate Completed**\n\n` +
+        `**Before:** ${data.previousUrl}\n` +
+        `**After:** ${data.currentUrl}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: relocateText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 22. List conflicts
+registerTool(
+  "svn_conflicts",
+  "List conflicted paths with their conflict kind (text, property, tree) and the .mine/.rOLD/.rNEW files",
+  {
+    path: z.string().optional().describe("Specific path to inspect"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_conflicts tool with path: ${args.path || 'current directory'}`);
+      const result = await getSvnService(args.workingCopy).getConflicts(args.path);
+      const conflicts = result.data!;
+
+      if (conflicts.length === 0) {
+        return {
+          content: [{ type: "text", text: "✅ **No conflicts in the working copy**" }],
+        };
+      }
+
+      const conflictText = `⚠️ **SVN Conflicts** (${conflicts.length} paths)\n\n` +
+        conflicts.map(conflict => {
+          let text = `**${conflict.path}** - ${conflict.kinds.join(', ')} conflict\n`;
+          if (conflict.mineFile) text += `  • Mine: ${conflict.mineFile}\n`;
+          if (conflict.baseFile) text += `  • Base (old): ${conflict.baseFile}\n`;
+          if (conflict.theirsFile) text += `  • Theirs (new): ${conflict.theirsFile}\n`;
+          if (conflict.propertyRejectFile) text += `  • Property rejects: ${conflict.propertyRejectFile}\n`;
+          if (conflict.treeConflictDescription) text += `  • Tree conflict: ${conflict.treeConflictDescription}\n`;
+          return text;
+        }).join('\n') +
+        `\nResolve them with svn_resolve (accept: base, working, mine-conflict, theirs-conflict, mine-full or theirs-full).\n` +
+        `\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: conflictText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 23. Resolve conflicts
+registerTool(
+  "svn_resolve",
+  "Resolve conflicts, choosing an accept strategy per path",
+  {
+    resolutions: z.array(z.object({
+      path: z.string().describe("Conflicted path"),
+      accept: z.enum(["base", "working", "mine-conflict", "theirs-conflict", "mine-full", "theirs-full"]).describe("Resolution strategy")
+    })).min(1).describe("Paths to resolve with their strategy"),
+    recursive: z.boolean().optional().default(false).describe("Resolve recursively inside directories"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_resolve tool with resolutions: ${args.resolutions.map(r => `${r.path}=${r.accept}`).join(', ')}`);
+      const service = getSvnService(args.workingCopy);
+
+      // One svn resolve call per strategy
+      const byStrategy = new Map<typeof args.resolutions[number]['accept'], string[]>();
+      for (const resolution of args.resolutions) {
+        byStrategy.set(resolution.accept, [...(byStrategy.get(resolution.accept) || []), resolution.path]);
+      }
+
+      let resolveText = `✅ **Conflicts Resolved**\n\n`;
+      let executionTime = 0;
+      for (const [accept, paths] of byStrategy) {
+        const result = await service.resolve(paths, { accept, recursive: args.recursive });
+        executionTime += result.executionTime || 0;
+        resolveText += `**${accept}:** ${paths.join(', ')}\n` +
+          `**Command:** ${result.command}\n` +
+          `\`\`\`\n${result.data}\n\`\`\`\n\n`;
+      }
+
+      resolveText += `**Execution Time:** ${formatDuration(executionTime)}`;
+
+      return {
+        content: [{ type: "text", text: resolveText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 24. List properties
+registerTool(
+  "svn_proplist",
+  "List versioned properties (svn:ignore, svn:externals, svn:eol-style, svn:mime-type, svn:keywords, svn:needs-lock...) with their values",
+  {
+    path: z.string().optional().describe("Path or URL (defaults to the working copy root)"),
+    recursive: z.boolean().optional().default(false).describe("List properties of every path below"),
+    revprop: z.boolean().optional().default(false).describe("List revision properties instead (svn:log, svn:author, svn:date)"),
+    revision: z.number().int().nonnegative().optional().describe("Revision, required with revprop"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_proplist tool with path: ${args.path || 'current directory'}, recursive: ${args.recursive}, revprop: ${args.revprop}`);
+      const result = await getSvnService(args.workingCopy).propList(args.path, {
+        recursive: args.recursive,
+        revprop: args.revprop,
+        revision: args.revision
+      });
+      const lists = result.data!.filter(list => Object.keys(list.properties).length > 0);
+
+      if (lists.length === 0) {
+        return {
+          content: [{ type: "text", text: "📝 **No properties found**" }],
+        };
+      }
+
+      const propText = `🏷️ **SVN Properties** (${lists.length} paths)\n\n` +
+        lists.map(list =>
+          `**${list.path}**\n` +
+          Object.entries(list.properties).map(([name, value]) =>
+            value.includes('\n')
+              ? `• ${name}:\n\`\`\`\n${value.trimEnd()}\n\`\`\``
+              : `• ${name} = ${value}`
+          ).join('\n')
+        ).join('\n\n') +
+        `\n\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: propText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 25. Get a property
+registerTool(
+  "svn_propget",
+  "Get the value of a versioned property, or of a revision property with revprop",
+  {
+    name: z.string().describe("Property name, e.g. svn:ignore or svn:externals"),
+    path: z.string().optional().describe("Path or URL (defaults to the working copy root)"),
+    recursive: z.boolean().optional().default(false).describe("Show the property on every path below that has it"),
+    revprop: z.boolean().optional().default(false).describe("Read a revision property (e.g. svn:log)"),
+    revision: z.number().int().nonnegative().optional().describe("Revision, required with revprop"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_propget tool with name: ${args.name}, path: ${args.path || 'current directory'}, revprop: ${args.revprop}`);
+      const result = await getSvnService(args.workingCopy).propGet(args.name, args.path, {
+        recursive: args.recursive,
+        revprop: args.revprop,
+        revision: args.revision
+      });
+      const properties = result.data!;
+
+      if (properties.length === 0) {
+        return {
+          content: [{ type: "text", text: `📝 **Property ${args.name} is not set**` }],
+        };
+      }
+
+      const propText = `🏷️ **${args.name}**\n\n` +
+        properties.map(property => `**${property.path}**\n\`\`\`\n${property.value.trimEnd()}\n\`\`\``).join('\n\n') +
+        `\n\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: propText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 26. Set a property
+registerTool(
+  "svn_propset",
+  "Set a versioned property. With revprop it edits a revision property such as the commit message (svn:log); the server must allow it",
+  {
+    name: z.string().describe("Property name, e.g. svn:ignore, svn:externals, svn:eol-style, svn:mime-type, svn:keywords, svn:needs-lock"),
+    value: z.string().describe("Property value; use one entry per line for svn:ignore and svn:externals"),
+    path: z.string().optional().describe("Path or URL (defaults to the working copy root)"),
+    recursive: z.boolean().optional().default(false).describe("Set the property on every path below"),
+    force: z.boolean().optional().default(false).describe("Force setting a property that svn would reject (e.g. invalid svn:eol-style)"),
+    revprop: z.boolean().optional().default(false).describe("Edit a revision property instead of a versioned one"),
+    revision: z.number().int().nonnegative().optional().describe("Revision, required with revprop"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_propset tool with name: ${args.name}, path: ${args.path || 'current directory'}, revprop: ${args.revprop}`);
+      const result = await getSvnService(args.workingCopy).propSet(args.name, args.value, args.path, {
+        recursive: args.recursive,
+        force: args.force,
+        revprop: args.revprop,
+        revision: args.revision
+      });
+
+      const propText = `🏷️ **Property Set**\n\n` +
+        `**Name:** ${args.name}\n` +
+        `**Target:** ${args.revprop ? `revision ${args.revision}` : (args.path || 'Working copy root')}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: propText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 27. Delete a property
+registerTool(
+  "svn_propdel",
+  "Delete a versioned property, or a revision property with revprop",
+  {
+    name: z.string().describe("Property name"),
+    path: z.string().optional().describe("Path or URL (defaults to the working copy root)"),
+    recursive: z.boolean().optional().default(false).describe("Delete the property on every path below"),
+    revprop: z.boolean().optional().default(false).describe("Delete a revision property instead of a versioned one"),
+    revision: z.number().int().nonnegative().optional().describe("Revision, required with revprop"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_propdel tool with name: ${args.name}, path: ${args.path || 'current directory'}, revprop: ${args.revprop}`);
+      const result = await getSvnService(args.workingCopy).propDel(args.name, args.path, {
+        recursive: args.recursive,
+        revprop: args.revprop,
+        revision: args.revision
+      });
+
+      const propText = `🗑️ **Property Deleted**\n\n` +
+        `**Name:** ${args.name}\n` +
+        `**Target:** ${args.revprop ? `revision ${args.revision}` : (args.path || 'Working copy root')}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: propText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  },
+  async (args) =>
+    `🏷️ **Property Delete Preview**\n\n**Property:** ${args.name}\n` +
+    (args.revprop ? `**Revision:** r${args.revision} (revision property)` : `**Path:** ${args.path || 'Working copy root'}${args.recursive ? ' and everything below' : ''}`)
+);
+
+// 28. Lock files
+registerTool(
+  "svn_lock",
+  "Lock files in the repository so nobody else can commit them. Required before editing files with svn:needs-lock (e.g. binary design assets)",
+  {
+    paths: z.union([z.string(), z.array(z.string())]).describe("File path(s) or URL(s) to lock"),
+    comment: z.string().optional().describe("Lock comment explaining why the file is locked"),
+    steal: z.boolean().optional().default(false).describe("Steal the lock if another user holds it"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_lock tool with paths: ${JSON.stringify(args.paths)}, steal: ${args.steal}`);
+      const result = await getSvnService(args.workingCopy).lock(args.paths, {
+        comment: args.comment,
+        steal: args.steal
+      });
+
+      const lockText = `🔒 **Files Locked**\n\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: lockText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 29. Unlock files
+registerTool(
+  "svn_unlock",
+  "Release locks on files",
+  {
+    paths: z.union([z.string(), z.array(z.string())]).describe("File path(s) or URL(s) to unlock"),
+    force: z.boolean().optional().default(false).describe("Break the lock even if another user or working copy holds it"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_unlock tool with paths: ${JSON.stringify(args.paths)}, force: ${args.force}`);
+      const result = await getSvnService(args.workingCopy).unlock(args.paths, {
+        force: args.force
+      });
+
+      const unlockText = `🔓 **Files Unlocked**\n\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: unlockText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 30. List locks
+registerTool(
+  "svn_locks",
+  "List every lock under a path with owner, token, creation and expiry, including locks held by other users",
+  {
+    path: z.string().optional().describe("Path to inspect (defaults to the working copy root)"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_locks tool with path: ${args.path || 'current directory'}`);
+      const result = await getSvnService(args.workingCopy).getLocks(args.path);
+      const locks = result.data!;
+
+      if (locks.length === 0) {
+        return {
+          content: [{ type: "text", text: "🔓 **No locks found**" }],
+        };
+      }
+
+      const stateLabels = {
+        held: '🔒 Held by this working copy',
+        other: '👤 Held by another user',
+        stolen: '⚠️ Stolen (local token no longer valid)',
+        broken: '⚠️ Broken (lock removed in the repository)'
+      };
+
+      const locksText = `🔒 **SVN Locks** (${locks.length})\n\n` +
+        locks.map(lock =>
+          `**${lock.path}**\n` +
+          `• State: ${stateLabels[lock.state]}\n` +
+          `• Owner: ${lock.owner}\n` +
+          `• Token: ${lock.token}\n` +
+          `• Created: ${lock.created}\n` +
+          `• Expires: ${lock.expires || 'Never'}` +
+          (lock.comment ? `\n• Comment: ${lock.comment.trim()}` : '')
+        ).join('\n\n') +
+        `\n\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: locksText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 31. Copy files or directories
+registerTool(
+  "svn_copy",
+  "Copy files or directories keeping their history, between working copy paths and/or repository URLs. A URL destination commits immediately and needs a message",
+  {
+    sources: z.union([z.string(), z.array(z.string())]).describe("Source path(s) or URL(s)"),
+    destination: z.string().describe("Destination path or URL (a directory when copying several sources)"),
+    revision: z.union([z.number(), z.enum(['HEAD', 'BASE', 'COMMITTED', 'PREV'])]).optional().describe("Source revision to copy from"),
+    parents: z.boolean().optional().default(false).describe("Create intermediate directories"),
+    message: z.string().optional().describe("Commit message, required when the destination is a URL"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_copy tool with sources: ${JSON.stringify(args.sources)}, destination: ${args.destination}`);
+      const result = await getSvnService(args.workingCopy).copy(args.sources, args.destination, {
+        revision: args.revision,
+        parents: args.parents,
+        message: args.message
+      });
+      const sourcesArray = Array.isArray(args.sources) ? args.sources : [args.sources];
+
+      const copyText = `📋 **Copied**\n\n` +
+        `**From:** ${sourcesArray.join(', ')}${args.revision !== undefined ? ` @ ${args.revision}` : ''}\n` +
+        `**To:** ${args.destination}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: copyText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 32. Move or rename files or directories
+registerTool(
+  "svn_move",
+  "Move or rename files or directories keeping their history (use this instead of delete + add when refactoring). Sources and destination must be all working copy paths or all URLs",
+  {
+    sources: z.union([z.string(), z.array(z.string())]).describe("Source path(s) or URL(s)"),
+    destination: z.string().describe("Destination path or URL (a directory when moving several sources)"),
+    parents: z.boolean().optional().default(false).describe("Create intermediate directories"),
+    force: z.boolean().optional().default(false).describe("Move even if the source has local modifications"),
+    message: z.string().optional().describe("Commit message, required when moving URLs"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_move tool with sources: ${JSON.stringify(args.sources)}, destination: ${args.destination}`);
+      const result = await getSvnService(args.workingCopy).move(args.sources, args.destination, {
+        parents: args.parents,
+        force: args.force,
+        message: args.message
+      });
+      const sourcesArray = Array.isArray(args.sources) ? args.sources : [args.sources];
+
+      const moveText = `🚚 **Moved**\n\n` +
+        `**From:** ${sourcesArray.join(', ')}\n` +
+        `**To:** ${args.destination}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: moveText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 33. Import an unversioned tree
+registerTool(
+  "svn_import",
+  "Import an unversioned local directory tree into a repository URL. Commits immediately",
+  {
+    path: z.string().describe("Local directory to import"),
+    url: z.string().describe("Repository URL to import into"),
+    message: z.string().describe("Commit message"),
+    noIgnore: z.boolean().optional().default(false).describe("Also import files matched by svn:ignore / global-ignores"),
+    force: z.boolean().optional().default(false).describe("Import even unversionable files (e.g. with invalid names)"),
+    autoProps: z.boolean().optional().describe("Force auto-props on (true) or off (false); the client configuration decides when omitted"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_import tool with path: ${args.path}, url: ${args.url}`);
+      const result = await getSvnService(args.workingCopy).import(args.path, args.url, {
+        message: args.message,
+        noIgnore: args.noIgnore,
+        force: args.force,
+        autoProps: args.autoProps === true,
+        noAutoProps: args.autoProps === false
+      });
+
+      const importText = `📥 **Imported**\n\n` +
+        `**From:** ${args.path}\n` +
+        `**To:** ${args.url}\n` +
+        `**Message:** ${args.message}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${result.data}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: importText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 34. Export a clean tree
+registerTool(
+  "svn_export",
+  "Export a clean tree without .svn metadata from a repository URL or working copy to a target directory (e.g. to build a release bundle). Does not need a working copy when exporting a URL",
+  {
+    source: z.string().describe("Repository URL or working copy path to export"),
+    targetPath: z.string().describe("Local directory to write the exported tree to"),
+    revision: z.union([z.number(), z.literal('HEAD')]).optional().describe("Revision to export; without it a working copy export includes local modifications"),
+    force: z.boolean().optional().default(false).describe("Overwrite an existing target directory"),
+    nativeEol: z.enum(['LF', 'CR', 'CRLF']).optional().describe("Line ending for files with svn:eol-style=native"),
+    ignoreExternals: z.boolean().optional().default(false).describe("Skip svn:externals definitions"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_export tool with source: ${args.source}, targetPath: ${args.targetPath}, revision: ${args.revision ?? 'working'}`);
+      const result = await getSvnService(args.workingCopy).export(args.source, args.targetPath, {
+        revision: args.revision,
+        force: args.force,
+        nativeEol: args.nativeEol,
+        ignoreExternals: args.ignoreExternals
+      });
+      const exportedRevision = result.data?.match(/Exported revision (\d+)/)?.[1];
+
+      const exportText = `📤 **Exported**\n\n` +
+        `**From:** ${args.source}\n` +
+        `**To:** ${args.targetPath}\n` +
+        `**Revision:** ${exportedRevision || args.revision || 'Working copy'}\n` +
+        `**Command:** ${result.command}\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**Result:**\n\`\`\`\n${(result.data || '').split('\n').slice(-20).join('\n')}\n\`\`\``;
+
+      return {
+        content: [{ type: "text", text: exportText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 35. Batch operations
+registerTool(
+  "svn_batch",
+  "Run an ordered list of add/delete/move/copy/revert operations in one call (e.g. a multi-file refactor). All paths are validated before anything runs",
+  {
+    operations: z.array(z.object({
+      type: z.enum(['add', 'delete', 'move', 'copy', 'revert']).describe("Operation type"),
+      source: z.string().describe("Path (or URL for delete/move/copy) the operation applies to"),
+      target: z.string().optional().describe("Destination, required for move and copy"),
+      options: z.record(z.any()).optional().describe("Options of the matching tool, e.g. { parents: true } or { message: '...' }")
+    })).min(1).describe("Operations, run in order"),
+    onError: z.enum(['stop', 'continue']).optional().default('stop').describe("Stop at the first failure or continue with the rest"),
+    rollback: z.boolean().optional().default(false).describe("If any operation fails, revert the local changes already applied"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_batch tool with ${args.operations.length} operations, onError: ${args.onError}, rollback: ${args.rollback}`);
+      // A batch cannot do what the policy forbids the individual tools
+      const forbidden = [...new Set(args.operations.map(operation => `svn_${operation.type}`))].filter(tool => !isToolEnabled(policy, tool));
+      if (forbidden.length > 0) {
+        throw new Error(`Operations not allowed by the server policy: ${forbidden.join(', ')}`);
+      }
+      const result = await getSvnService(args.workingCopy).batch(args.operations, {
+        onError: args.onError,
+        rollback: args.rollback
+      });
+      const summary = result.data!;
+
+      const batchText = `${summary.failed === 0 ? '✅' : '⚠️'} **Batch Operations**\n\n` +
+        `**Succeeded:** ${summary.succeeded}\n` +
+        `**Failed:** ${summary.failed}\n` +
+        `**Skipped:** ${summary.skipped}\n` +
+        (summary.rolledBack ? `**Rolled Back:** Yes\n` : '') +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        summary.results.map((entry, index) => {
+          const { type, source, target } = entry.operation;
+          const icon = entry.skipped ? '⏭️' : entry.success ? (entry.rolledBack ? '↩️' : '✅') : '❌';
+          const detail = entry.skipped ? 'skipped' : entry.success ? (entry.command || '') : entry.error;
+          return `${index + 1}. ${icon} ${type} ${source}${target ? ` → ${target}` : ''}\n   ${detail}`;
+        }).join('\n') +
+        (summary.rollbackErrors.length > 0
+          ? `\n\n**Rollback Problems:**\n${summary.rollbackErrors.map(error => `• ${error}`).join('\n')}`
+          : '');
+
+      return {
+        content: [{ type: "text", text: batchText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  },
+  async (args) =>
+    `📋 **Batch Preview** (${args.operations.length} operations)\n\n` +
+    args.operations.map((operation, index) =>
+      `${index + 1}. ${operation.type} ${operation.source}${operation.target ? ` → ${operation.target}` : ''}`).join('\n')
+);
+
+// 36. Working copy summary
+registerTool(
+  "svn_summary",
+  "Get an overview of the working copy in one call: URL, revision, branch, local changes grouped by kind and the project's branches",
+  {
+    includeSize: z.boolean().optional().default(false).describe("Also compute the size of the working copy on disk (slower on large trees)"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_summary tool with includeSize: ${args.includeSize}`);
+      const result = await getSvnService(args.workingCopy).getWorkingCopySummary(args.includeSize);
+      const summary = result.data!;
+      const currentBranch = resolveRepositoryLayout(summary.info).currentBranch || summary.info.relativeUrl;
+
+      const list = (title: string, paths: string[]) =>
+        paths.length > 0 ? `\n\n**${title}** (${paths.length})\n${paths.map(p => `• ${p}`).join('\n')}` : '';
+
+      const summaryText = `🧭 **Working Copy Summary**\n\n` +
+        `**Root:** ${summary.info.workingCopyRootPath || summary.info.path}\n` +
+        `**URL:** ${summary.info.url}\n` +
+        `**Branch:** ${currentBranch}\n` +
+        `**Revision:** ${summary.info.revision}\n` +
+        `**Last Change:** r${summary.info.lastChangedRev} by ${summary.info.lastChangedAuthor} (${summary.info.lastChangedDate})\n` +
+        `**Changed Paths:** ${summary.totalFiles}\n` +
+        (summary.totalSize !== undefined ? `**Size on Disk:** ${formatBytes(summary.totalSize)}\n` : '') +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}` +
+        (summary.totalFiles === 0 ? `\n\n✅ No local changes` : '') +
+        list('⚠️ Conflicts', summary.conflictedFiles) +
+        list('✏️ Modified', summary.modifiedFiles) +
+        list('➕ Added', summary.addedFiles) +
+        list('➖ Deleted', summary.deletedFiles) +
+        list('❓ Unversioned', summary.unversionedFiles) +
+        (summary.branches.length > 0
+          ? `\n\n**🌿 Branches** (${summary.branches.length})\n` +
+            summary.branches.map(branch => `• ${branch.name} (r${branch.lastChangedRev} by ${branch.lastChangedAuthor})`).join('\n')
+          : '');
+
+      return {
+        content: [{ type: "text", text: summaryText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 37. Compare branches
+registerTool(
+  "svn_compare_branches",
+  "Compare two branches before a merge: revisions on the source not yet merged into the target, files changed on both sides since their common ancestor (likely conflicts) and an overall diff summary",
+  {
+    source: z.string().describe("Source branch: URL, ^/path, 'trunk', 'branches/name', 'tags/name' or a branch name"),
+    target: z.string().optional().default('trunk').describe("Target branch the source would be merged into (defaults to trunk)"),
+    maxPaths: z.number().int().positive().optional().default(50).describe("Maximum number of changed paths to list in the diff summary"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_compare_branches tool with source: ${args.source}, target: ${args.target}`);
+      const result = await getSvnService(args.workingCopy).compareBranches(args.source, args.target);
+      const comparison = result.data!;
+
+      const counts = (['added', 'modified', 'deleted', 'replaced'] as const)
+        .map(item => [item, comparison.diffSummary.filter(entry => entry.item === item).length] as const)
+        .filter(([, count]) => count > 0);
+      const propertyOnly = comparison.diffSummary.filter(entry => entry.item === 'none' && entry.props === 'modified').length;
+      const itemCodes = { added: 'A', deleted: 'D', modified: 'M', replaced: 'R', none: ' ' };
+
+      const compareText = `🔍 **Branch Comparison**\n\n` +
+        `**Source:** ${comparison.sourceBranch}\n` +
+        `**Target:** ${comparison.targetBranch}\n` +
+        `**Common Ancestor:** ${comparison.commonAncestor ? `${comparison.commonAncestor.path}@${comparison.commonAncestor.revision}` : 'Not found (branches are not copies of each other or of a common parent)'}\n` +
+        `**Already Merged:** ${comparison.mergeInfo.mergedRevisions.length} revisions\n` +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n` +
+        `**📋 Not Yet Merged** (${comparison.differences.length})\n` +
+        (comparison.differences.length > 0
+          ? comparison.differences.map(entry => `• r${entry.revision} by ${entry.author}: ${entry.message.split('\n')[0]}`).join('\n')
+          : 'Nothing to merge') +
+        `\n\n**⚠️ Likely Conflicts** (${comparison.conflictingFiles.length} files changed on both sides)\n` +
+        (comparison.conflictingFiles.length > 0
+          ? comparison.conflictingFiles.map(file => `• ${file}`).join('\n')
+          : comparison.commonAncestor ? 'None' : 'Unknown without a common ancestor') +
+        `\n\n**📊 Diff Summary** (${comparison.diffSummary.length} paths` +
+        (counts.length > 0 ? `: ${counts.map(([item, count]) => `${count} ${item}`).join(', ')}` : '') +
+        (propertyOnly > 0 ? `, ${propertyOnly} with property changes only` : '') + `)\n` +
+        comparison.diffSummary.slice(0, args.maxPaths)
+          .map(entry => `${itemCodes[entry.item]}${entry.props === 'modified' ? 'M' : ' '} ${entry.path}`)
+          .join('\n') +
+        (comparison.diffSummary.length > args.maxPaths ? `\n... and ${comparison.diffSummary.length - args.maxPaths} more` : '');
+
+      return {
+        content: [{ type: "text", text: compareText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 38. List repository contents
+registerTool(
+  "svn_list",
+  "List files and directories at a repository URL or working copy path, with size, last author, revision and date. Browses other branches without a checkout",
+  {
+    path: z.string().optional().describe("URL (e.g. https://.../branches/x/src) or working copy path; defaults to the working copy root"),
+    depth: z.enum(['empty', 'files', 'immediates', 'infinity']).optional().default('immediates').describe("How deep to list; infinity lists the whole subtree"),
+    revision: z.union([z.number(), z.enum(['HEAD', 'BASE', 'COMMITTED', 'PREV'])]).optional().describe("Peg revision to list at"),
+    limit: z.number().int().positive().optional().default(500).describe("Maximum number of entries to show"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_list tool with path: ${args.path || 'current directory'}, depth: ${args.depth}, revision: ${args.revision ?? 'HEAD'}`);
+      const result = await getSvnService(args.workingCopy).list(args.path, {
+        depth: args.depth,
+        revision: args.revision
+      });
+      const entries = result.data!;
+
+      if (entries.length === 0) {
+        return {
+          content: [{ type: "text", text: "📂 **Empty directory**" }],
+        };
+      }
+
+      const listText = `📂 **${args.path || 'Working copy root'}**${args.revision !== undefined ? ` @ ${args.revision}` : ''} (${entries.length} entries)\n\n` +
+        entries.slice(0, args.limit).map(entry =>
+          `${entry.kind === 'directory' ? '📁' : '📄'} ${entry.name}${entry.kind === 'directory' ? '/' : ''}` +
+          (entry.size !== undefined ? ` (${formatBytes(entry.size)})` : '') +
+          ` — r${entry.lastChangedRev} by ${entry.lastChangedAuthor}, ${entry.lastChangedDate.substring(0, 10)}`
+        ).join('\n') +
+        (entries.length > args.limit ? `\n... and ${entries.length - args.limit} more` : '') +
+        `\n\n**Execution Time:** ${formatDuration(result.executionTime || 0)}`;
+
+      return {
+        content: [{ type: "text", text: listText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 39. Read file contents
+registerTool(
+  "svn_cat",
+  "Read a file at any repository URL or working copy path and revision without a checkout. Binary files (by svn:mime-type) are not returned",
+  {
+    path: z.string().describe("File URL or working copy path"),
+    revision: z.union([z.number(), z.enum(['HEAD', 'BASE', 'COMMITTED', 'PREV'])]).optional().describe("Peg revision to read the file at"),
+    maxBytes: z.number().int().positive().optional().default(102400).describe("Maximum number of bytes to return"),
+    workingCopy: workingCopyParam
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_cat tool with path: ${args.path}, revision: ${args.revision ?? 'HEAD'}`);
+      const result = await getSvnService(args.workingCopy).cat(args.path, {
+        revision: args.revision,
+        maxBytes: args.maxBytes
+      });
+      const file = result.data!;
+
+      const header = `📄 **${file.path}**${args.revision !== undefined ? ` @ ${args.revision}` : ''}\n\n` +
+        `**Size:** ${formatBytes(file.size)}\n` +
+        (file.mimeType ? `**MIME Type:** ${file.mimeType}\n` : '') +
+        `**Execution Time:** ${formatDuration(result.executionTime || 0)}\n\n`;
+
+      const catText = file.binary
+        ? header + `⚠️ Binary file, content not shown`
+        : header + `\`\`\`\n${file.content}\n\`\`\`` +
+          (file.truncated ? `\n\n✂️ Truncated at ${formatBytes(args.maxBytes)} of ${formatBytes(file.size)}` : '');
+
+      return {
+        content: [{ type: "text", text: catText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 40. List working copies
+registerTool(
+  "svn_working_copies",
+  "List the registered working copies (e.g. trunk and branch checkouts) and which one tools use by default",
+  {
+    discoverRoot: z.string().optional().describe("Also register working copies found under this directory (not available in read-only mode)")
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_working_copies tool with discoverRoot: ${args.discoverRoot || 'none'}`);
+      const blocked = findReadOnlyViolation(policy, "svn_working_copies", args);
+      if (blocked) {
+        throw new Error(`${blocked} registers new working copies and is not available in read-only mode`);
+      }
+      const discovered = args.discoverRoot ? getRegistry().discover(args.discoverRoot) : [];
+      const workingCopies = await getRegistry().list();
+
+      const listText = `🗂️ **Working Copies** (${workingCopies.length})\n\n` +
+        workingCopies.map(wc =>
+          `${wc.active ? '👉' : '•'} **${wc.name}**${wc.active ? ' (selected)' : ''}\n` +
+          `   Path: ${wc.path}\n` +
+          `   Root: ${wc.root || '⚠️ not a working copy'}\n` +
+          `   Source: ${wc.source}`
+        ).join('\n') +
+        (args.discoverRoot ? `\n\n**Discovered:** ${discovered.length > 0 ? discovered.join(', ') : 'nothing new'}` : '');
+
+      return {
+        content: [{ type: "text", text: listText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 41. Register a working copy
+registerTool(
+  "svn_working_copy_add",
+  "Register a working copy under a name so tools can target it with the workingCopy argument",
+  {
+    name: z.string().describe("Name to refer to the working copy, e.g. 'trunk' or 'release-2.0'"),
+    path: z.string().describe("Directory of the checkout"),
+    select: z.boolean().optional().default(false).describe("Also make it the default working copy")
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_working_copy_add tool with name: ${args.name}, path: ${args.path}`);
+      const added = await getRegistry().add(args.name, args.path);
+      if (args.select) {
+        getRegistry().select(args.name);
+      }
+
+      const addText = `➕ **Working Copy Registered**\n\n` +
+        `**Name:** ${added.name}\n` +
+        `**Path:** ${added.path}\n` +
+        `**Root:** ${added.root}\n` +
+        `**Selected:** ${args.select || added.active ? 'Yes' : 'No'}`;
+
+      return {
+        content: [{ type: "text", text: addText }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+// 42. Select the default working copy
+registerTool(
+  "svn_working_copy_select",
+  "Select the working copy that tools use when called without the workingCopy argument",
+  {
+    name: z.string().describe("Name of a registered working copy")
+  },
+  async (args) => {
+    try {
+      logger.info(`Running svn_working_copy_select tool with name: ${args.name}`);
+      const selected = getRegistry().select(args.name);
+
+      return {
+        content: [{ type: "text", text: `👉 **Selected Working Copy:** ${selected.name}\n\n**Path:** ${selected.path}` }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `❌ **Error:** ${error.message}` }],
+      };
+    }
+  }
+);
+
+async function runServer() {
+  try {
+
+    logger.info("Starting SVN MCP Server...");
+    logger.info("Creating SVN MCP Server...");
+    logger.info("Server info: svn-mcp-server");
+    logger.info("Version: " + VERSION);
+    logger.info("Log file: " + logger.logFile);
+    
+    // Validate environment variables
+    if (!process.env.SVN_PATH) {
+      logger.info("SVN_PATH environment variable not set, using 'svn' from PATH");
+    } else {
+      logger.info("SVN_PATH: " + process.env.SVN_PATH);
+    }
+    
+    if (!process.env.SVN_WORKING_DIRECTORY) {
+      logger.info("SVN_WORKING_DIRECTORY not set, using current directory");
+    } else {
+      logger.info("SVN_WORKING_DIRECTORY: " + process.env.SVN_WORKING_DIRECTORY);
+    }
+    
+    if (process.env.SVN_WORKING_COPIES) {
+      logger.info("SVN_WORKING_COPIES: " + process.env.SVN_WORKING_COPIES);
+    }
+
+    if (process.env.SVN_WORKING_COPIES_ROOT) {
+      logger.info("SVN_WORKING_COPIES_ROOT: " + process.env.SVN_WORKING_COPIES_ROOT);
+    }
+    
+    if (process.env.SVN_USERNAME) {
+      logger.info("SVN_USERNAME: " + process.env.SVN_USERNAME);
+    }
+    
+    if (process.env.SVN_PASSWORD) {
+      logger.info("SVN_PASSWORD: ***");
+    }
+    
+    logger.info("Starting SVN MCP Server in stdio mode...");
+    
+    // Create transport
+    const transport = new StdioServerTransport();
+    
+    logger.info("Connecting server to transport...");
+    
+    // Connect server to transport - this should keep the process alive
+    await server.connect(transport);
+
+    // Run each tools/call that asks for progress inside its token's context (see progressReporter)
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message) => {
+      const request = message as { method?: string; params?: { _meta?: { progressToken?: string | number } } };
+      const progressToken = request.method === "tools/call" ? request.params?._meta?.progressToken : undefined;
+      if (progressToken === undefined) {
+        onmessage?.(message);
+      } else {
+        progressTokens.run(progressToken, () => onmessage?.(message));
+      }
+    };
+    
+    logger.info("MCP Server connected and ready!");
+    logger.info("Available tools: " + registeredTools.join(", "));
+    if (policy.readOnly) {
+      logger.info("Read-only mode: tools that change the repository or the working copy are disabled");
+    }
+    if (disabledTools.length > 0) {
+      logger.info("Disabled by policy: " + disabledTools.join(", "));
+    }
+    if (policy.confirmTools.length > 0) {
+      logger.info("Confirmation required for: " + policy.confirmTools.join(", "));
+    }
+    if (process.env.SVN_PROTECTED_PATHS) {
+      logger.info("SVN_PROTECTED_PATHS: " + process.env.SVN_PROTECTED_PATHS);
     }
-    
-    logToFile("Starting SVN MCP Server in stdio mode...");
-    
-    // Create transport
-    const transport = new StdioServerTransport();
-    
-    logToFile("Connecting server to transport...");
-    
-    // Connect server to transport - this should keep the process alive
-    await server.connect(transport);
-    
-    logToFile("MCP Server connected and ready!");
-    logToFile("Available tools: " + [
-      "svn_health_check",
-      "svn_diagnose",
-      "svn_info",
-      "svn_status",
-      "svn_log",
-      "svn_diff",
-      "svn_checkout",
-      "svn_update",
-      "svn_add",
-      "svn_commit",
-      "svn_delete",
-      "svn_revert",
-      "svn_cleanup",
-      "svn_clear_credentials"
-    ].join(", "));
 
   } catch (error) {
+    logger.error("Error starting server: " + (error as Error).message, { stack: (error as Error).stack });
     console.error("Error starting server:", error);
     console.error("Stack trace:", (error as Error).stack);
     process.exit(1);
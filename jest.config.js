@@ -14,6 +14,7 @@ export default {
   testMatch: [
     '**/tests/**/*.test.ts'
   ],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
   collectCoverage: false, // Disable coverage for now
   collectCoverageFrom: [
     'common/**/*.ts',
@@ -0,0 +1,25 @@
+import { it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Fake svn binaries are Node scripts run through their shebang, which Windows cannot do
+export const posixIt = process.platform === 'win32' ? it.skip : it;
+
+export function makeTempDir(prefix: string): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+export function removeTempDir(dir: string): void {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Write an executable fake svn into dir and return its path. The script is
+ * Node code that sees the command line arguments as `args`.
+ */
+export function writeFakeSvn(dir: string, script: string, name: string = 'svn'): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, `#!${process.execPath}\nconst args = process.argv.slice(2);${script}`, { mode: 0o755 });
+  return file;
+}
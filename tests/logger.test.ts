@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger, LogEntry, defaultLogPath } from '../common/logger';
+
+describe('Logger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'svn-logger-'));
+    file = path.join(dir, 'logs', 'mcp-svn.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readLines = (target: string) => fs.readFileSync(target, 'utf8').trim().split(/\r?\n/).map(line => JSON.parse(line));
+
+  it('should write JSON lines at or above the configured level', () => {
+    const logger = new Logger({ file, level: 'info' });
+
+    logger.debug('hidden');
+    logger.info('SVN command finished', { command: 'svn status', durationMs: 12, exitCode: 0, workingCopy: '/src/trunk' });
+    logger.warning('SVN command failed', { exitCode: 1 });
+
+    const lines = readLines(file);
+    expect(lines.map(line => line.level)).toEqual(['info', 'warning']);
+    expect(lines[0]).toMatchObject({ message: 'SVN command finished', command: 'svn status', durationMs: 12, exitCode: 0, workingCopy: '/src/trunk' });
+    expect(typeof lines[0].timestamp).toBe('string');
+  });
+
+  it('should rotate the file when it grows past the maximum size', () => {
+    const logger = new Logger({ file, maxBytes: 200, maxFiles: 2 });
+
+    for (let index = 0; index < 12; index++) {
+      logger.info(`entry ${index} ${'x'.repeat(40)}`);
+    }
+
+    expect(fs.existsSync(`${file}.1`)).toBe(true);
+    expect(fs.existsSync(`${file}.2`)).toBe(true);
+    expect(fs.existsSync(`${file}.3`)).toBe(false);
+    expect(fs.statSync(file).size).toBeLessThanOrEqual(200);
+    expect(readLines(file).pop().message).toContain('entry 11');
+  });
+
+  it('should forward entries only once the client sets a level', () => {
+    const logger = new Logger({ file: null });
+    const forwarded: LogEntry[] = [];
+    logger.setForwarder(entry => forwarded.push(entry));
+
+    logger.error('before setLevel');
+    logger.setClientLevel('warning');
+    logger.info('too verbose');
+    logger.warning('forwarded', { workingCopy: 'trunk' });
+
+    expect(forwarded.map(entry => entry.message)).toEqual(['forwarded']);
+    expect(forwarded[0]).toMatchObject({ level: 'warning', workingCopy: 'trunk' });
+  });
+
+  it('should read its settings from the environment', () => {
+    expect(Logger.fromEnv({ SVN_LOG_FILE: 'off' }).logFile).toBeNull();
+    expect(Logger.fromEnv({ SVN_LOG_FILE: file }).logFile).toBe(file);
+  });
+
+  it('should pick a per-platform default path', () => {
+    expect(defaultLogPath('win32', { LOCALAPPDATA: 'C:\\Users\\me\\AppData\\Local' })).toBe('C:\\Users\\me\\AppData\\Local\\mcp-svn\\logs\\mcp-svn.log');
+    expect(defaultLogPath('darwin', { HOME: '/Users/me' })).toBe('/Users/me/Library/Logs/mcp-svn/mcp-svn.log');
+    expect(defaultLogPath('linux', { HOME: '/home/me' })).toBe('/home/me/.local/state/mcp-svn/mcp-svn.log');
+    expect(defaultLogPath('linux', { HOME: '/home/me', XDG_STATE_HOME: '/var/state' })).toBe('/var/state/mcp-svn/mcp-svn.log');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { paginateByKey, nextLogRange, splitDiffByFile, parseDiffOutput, selectDiffSections } from '../common/utils';
+import { SvnLogEntry } from '../common/types';
+
+const entry = (revision: number): SvnLogEntry => ({ revision, author: 'alice', date: '2024-01-01T00:00:00Z', message: `r${revision}` });
+
+describe('paginateByKey', () => {
+  const items = ['a.txt', 'b.txt', 'c.txt', 'd.txt', 'e.txt'];
+
+  it('returns everything when no limit applies', () => {
+    const page = paginateByKey(items, { key: item => item });
+    expect(page.items).toEqual(items);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('stops at the limit and continues from the cursor', () => {
+    const first = paginateByKey(items, { key: item => item, limit: 2 });
+    expect(first.items).toEqual(['a.txt', 'b.txt']);
+    expect(first.nextCursor).toBe('c.txt');
+
+    const second = paginateByKey(items, { key: item => item, limit: 2, cursor: first.nextCursor });
+    expect(second.items).toEqual(['c.txt', 'd.txt']);
+    expect(second.offset).toBe(2);
+    expect(second.total).toBe(5);
+  });
+
+  it('stops before exceeding maxBytes but always returns one item', () => {
+    const page = paginateByKey(items, { key: item => item, maxBytes: 12, size: () => 5 });
+    expect(page.items).toEqual(['a.txt', 'b.txt']);
+
+    const oversized = paginateByKey(items, { key: item => item, maxBytes: 1, size: () => 5 });
+    expect(oversized.items).toEqual(['a.txt']);
+    expect(oversized.nextCursor).toBe('b.txt');
+  });
+
+  it('rejects a cursor that is no longer in the output', () => {
+    expect(() => paginateByKey(items, { key: item => item, cursor: 'gone.txt' })).toThrow(/Cursor not found: gone.txt/);
+  });
+});
+
+describe('nextLogRange', () => {
+  it('continues a descending log below the last revision shown', () => {
+    expect(nextLogRange(entry(40), entry(38))).toBe('39:1');
+    expect(nextLogRange(entry(40), entry(38), 'HEAD:20')).toBe('39:20');
+  });
+
+  it('continues an ascending log above the last revision shown', () => {
+    expect(nextLogRange(entry(10), entry(12), '1:HEAD')).toBe('11:HEAD');
+    expect(nextLogRange(entry(10), entry(12), '5:30')).toBe('11:30');
+  });
+});
+
+describe('splitDiffByFile', () => {
+  const diff = [
+    'Index: src/a.ts',
+    '===================================================================',
+    '--- src/a.ts\t(revision 1)',
+    '+++ src/a.ts\t(working copy)',
+    '@@ -1 +1 @@',
+    '-old',
+    '+new',
+    '',
+    'Property changes on: src/a.ts',
+    '___________________________________________________________________',
+    'Added: svn:eol-style',
+    '## -0,0 +1 ##',
+    '+native',
+    'Index: src/b.ts',
+    '===================================================================',
+    '--- src/b.ts\t(nonexistent)',
+    '+++ src/b.ts\t(working copy)',
+    '@@ -0,0 +1 @@',
+    '+added',
+    'Property changes on: docs',
+    '___________________________________________________________________',
+    'Added: svn:ignore',
+    '## -0,0 +1 ##',
+    '+build'
+  ].join('\n');
+
+  it('splits the diff into one section per path', () => {
+    const sections = splitDiffByFile(diff);
+    expect(sections.map(section => section.path)).toEqual(['src/a.ts', 'src/b.ts', 'docs']);
+    expect(sections[0].text).toContain('Added: svn:eol-style');
+    expect(sections[1].text).not.toContain('src/a.ts');
+  });
+
+  it('keeps each section parseable on its own', () => {
+    const [a, b] = splitDiffByFile(diff).map(section => parseDiffOutput(section.text)[0]);
+    expect(a.additions).toBe(1);
+    expect(a.deletions).toBe(1);
+    expect(b.changeType).toBe('added');
+  });
+
+  it('selects the requested files and reports when none are left', () => {
+    expect(selectDiffSections(diff, ['src/b.ts']).map(section => section.path)).toEqual(['src/b.ts']);
+    expect(selectDiffSections(diff, []).length).toBe(3);
+    expect(() => selectDiffSections(diff, ['src/c.ts'])).toThrow('None of the requested files are in the diff: src/c.ts');
+    expect(() => selectDiffSections('svn: warning: something unexpected')).toThrow('The diff output contains no file sections');
+  });
+});
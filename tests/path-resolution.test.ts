@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveWorkingCopyPath, findPathCandidates, findWorkingCopyRoot } from '../common/utils';
+import { SvnService } from '../tools/svn-service';
+import { posixIt, makeTempDir, removeTempDir, writeFakeSvn } from './helpers/fake-svn';
+
+describe('Working copy path resolution', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = makeTempDir('svn-paths-');
+    fs.mkdirSync(path.join(root, '.svn'));
+    fs.mkdirSync(path.join(root, 'src', 'a'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'lib'));
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), '');
+    fs.writeFileSync(path.join(root, 'lib', 'data.ts'), '');
+    fs.writeFileSync(path.join(root, 'lib', 'a.ts'), '');
+  });
+
+  afterEach(() => {
+    removeTempDir(root);
+  });
+
+  it('should resolve files and directories exactly', () => {
+    expect(resolveWorkingCopyPath(root, 'src/a.ts')).toMatchObject({ relativePath: 'src/a.ts', exists: true, kind: 'file' });
+    expect(resolveWorkingCopyPath(root, 'src/a')).toMatchObject({ relativePath: 'src/a', exists: true, kind: 'dir' });
+    expect(resolveWorkingCopyPath(root, '.')).toMatchObject({ relativePath: '.', kind: 'dir' });
+    expect(resolveWorkingCopyPath(path.join(root, 'src'), '../lib/data.ts', root).relativePath).toBe('lib/data.ts');
+  });
+
+  it('should accept paths that no longer exist', () => {
+    const deleted = resolveWorkingCopyPath(root, 'src/removed.ts');
+    expect(deleted).toMatchObject({ relativePath: 'src/removed.ts', exists: false });
+    expect(deleted.kind).toBeUndefined();
+  });
+
+  it('should refuse paths that escape the working copy root', () => {
+    expect(() => resolveWorkingCopyPath(root, '../outside.ts')).toThrow('Path is outside the working copy');
+    expect(() => resolveWorkingCopyPath(root, path.join(os.tmpdir(), 'elsewhere.ts'))).toThrow('Path is outside the working copy');
+  });
+
+  it('should suggest only segment-aligned matches', () => {
+    expect(findPathCandidates(root, 'a.ts')).toEqual(['lib/a.ts', 'src/a.ts']);
+    expect(findPathCandidates(root, 'ta.ts')).toEqual([]);
+    expect(findPathCandidates(root, 'a.ts', 1)).toHaveLength(1);
+  });
+
+  it('should find the working copy root from a subdirectory', () => {
+    expect(findWorkingCopyRoot(path.join(root, 'src', 'a'))).toBe(root);
+  });
+
+  it('should report ambiguous paths with suggestions instead of guessing', async () => {
+    const svnService = new SvnService({ workingDirectory: root });
+
+    await expect(svnService.add('a.ts')).rejects.toThrow('Path not found in the working copy: a.ts. Did you mean: lib/a.ts, src/a.ts?');
+    await expect(svnService.revert('missing/dir/file.ts')).rejects.toThrow('Path not found in the working copy: missing/dir/file.ts');
+    await expect(svnService.revert('../outside.ts')).rejects.toThrow('Path is outside the working copy');
+  });
+
+  posixIt('should accept missing paths only when svn still tracks them', async () => {
+    const fakeSvn = writeFakeSvn(root, `
+if (args[0] === 'status') {
+  const target = args.find(arg => arg.startsWith('/'));
+  const item = /gone\\.ts$/.test(target) ? '<entry path="' + target + '"><wc-status item="missing" revision="3"></wc-status></entry>' : '';
+  process.stdout.write('<?xml version="1.0"?><status><target path="' + target + '">' + item + '</target></status>');
+  process.exit(0);
+}
+process.stdout.write("Reverted '" + args.find(arg => arg.startsWith('/')) + "'\\n");
+`);
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: root });
+
+    const result = await svnService.revert('src/gone.ts');
+    expect(result.success).toBe(true);
+    expect(result.command).toContain(path.join(root, 'src', 'gone.ts'));
+    await expect(svnService.revert('a.ts')).rejects.toThrow('Path not found in the working copy: a.ts. Did you mean: lib/a.ts, src/a.ts?');
+  });
+});
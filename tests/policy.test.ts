@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { loadPolicy, isToolEnabled, requiresConfirmation, findReadOnlyViolation, globToRegExp, findProtectedPattern, ConfirmationStore } from '../common/policy';
+import { SvnService } from '../tools/svn-service';
+import { posixIt, makeTempDir, removeTempDir, writeFakeSvn } from './helpers/fake-svn';
+
+describe('Server policy', () => {
+  it('should register every tool by default', () => {
+    const policy = loadPolicy({});
+    expect(isToolEnabled(policy, 'svn_commit')).toBe(true);
+    expect(isToolEnabled(policy, 'svn_status')).toBe(true);
+    expect(requiresConfirmation(policy, 'svn_delete')).toBe(false);
+  });
+
+  it('should drop mutating tools in read-only mode', () => {
+    const policy = loadPolicy({ SVN_READ_ONLY: 'true' });
+    expect(isToolEnabled(policy, 'svn_commit')).toBe(false);
+    expect(isToolEnabled(policy, 'svn_clear_credentials')).toBe(false);
+    expect(isToolEnabled(policy, 'svn_log')).toBe(true);
+    expect(isToolEnabled(policy, 'svn_working_copy_select')).toBe(true);
+  });
+
+  it('should not register new working copies in read-only mode', () => {
+    expect(isToolEnabled(loadPolicy({ SVN_READ_ONLY: 'true' }), 'svn_working_copy_add')).toBe(false);
+    expect(isToolEnabled(loadPolicy({}), 'svn_working_copy_add')).toBe(true);
+  });
+
+  it('should refuse working copy discovery in read-only mode', () => {
+    const readOnly = loadPolicy({ SVN_READ_ONLY: 'true' });
+    expect(isToolEnabled(readOnly, 'svn_working_copies')).toBe(true);
+    expect(findReadOnlyViolation(readOnly, 'svn_working_copies', { discoverRoot: '/src' })).toBe('discoverRoot');
+    expect(findReadOnlyViolation(readOnly, 'svn_working_copies', {})).toBeUndefined();
+    expect(findReadOnlyViolation(loadPolicy({}), 'svn_working_copies', { discoverRoot: '/src' })).toBeUndefined();
+  });
+
+  it('should apply allow and deny lists with wildcards, deny winning', () => {
+    const policy = loadPolicy({ SVN_ALLOWED_TOOLS: 'svn_status, svn_log, svn_prop*', SVN_DENIED_TOOLS: 'svn_propdel' });
+    expect(isToolEnabled(policy, 'svn_status')).toBe(true);
+    expect(isToolEnabled(policy, 'svn_propset')).toBe(true);
+    expect(isToolEnabled(policy, 'svn_propdel')).toBe(false);
+    expect(isToolEnabled(policy, 'svn_diff')).toBe(false);
+  });
+
+  it('should ask for confirmation on destructive tools or the listed ones', () => {
+    expect(requiresConfirmation(loadPolicy({ SVN_REQUIRE_CONFIRMATION: 'true' }), 'svn_revert')).toBe(true);
+    expect(requiresConfirmation(loadPolicy({ SVN_REQUIRE_CONFIRMATION: 'true' }), 'svn_commit')).toBe(false);
+    expect(requiresConfirmation(loadPolicy({ SVN_REQUIRE_CONFIRMATION: 'svn_commit' }), 'svn_commit')).toBe(true);
+    expect(requiresConfirmation(loadPolicy({ SVN_REQUIRE_CONFIRMATION: 'off' }), 'svn_delete')).toBe(false);
+  });
+
+  it('should translate repository globs', () => {
+    expect(globToRegExp('tags/**').test('tags/1.0/src/app.ts')).toBe(true);
+    expect(globToRegExp('tags/**').test('tags')).toBe(false);
+    expect(globToRegExp('tags/*/**').test('tags/1.0')).toBe(false);
+    expect(globToRegExp('tags/*/**').test('tags/1.0/README')).toBe(true);
+    expect(globToRegExp('**/tags/**').test('project/tags/1.0')).toBe(true);
+    expect(globToRegExp('branches/release-?').test('branches/release-2')).toBe(true);
+    expect(globToRegExp('trunk/*.lock').test('trunk/sub/a.lock')).toBe(false);
+  });
+
+  it('should protect a path that matches or contains a protected tree', () => {
+    expect(findProtectedPattern('tags/1.0/src/app.ts', ['tags/**'])).toBe('tags/**');
+    expect(findProtectedPattern('tags', ['tags/*/**'])).toBe('tags/*/**');
+    expect(findProtectedPattern('', ['tags/**'])).toBe('tags/**');
+    expect(findProtectedPattern('tags/2.0', ['tags/*/**'])).toBeUndefined();
+    expect(findProtectedPattern('trunk/src', ['tags/**'])).toBeUndefined();
+  });
+
+  it('should accept a confirmation token once, for the same arguments only', () => {
+    const store = new ConfirmationStore();
+    const token = store.issue('svn_delete', { paths: ['a.txt'], force: false });
+
+    expect(store.consume('svn_delete', { paths: ['b.txt'], force: false }, token)).toBe(false);
+    expect(store.consume('svn_revert', { paths: ['a.txt'], force: false }, token)).toBe(false);
+    expect(store.consume('svn_delete', { force: false, paths: ['a.txt'] }, token)).toBe(true);
+    expect(store.consume('svn_delete', { paths: ['a.txt'], force: false }, token)).toBe(false);
+  });
+
+  it('should reject expired confirmation tokens', () => {
+    const store = new ConfirmationStore(-1);
+    const token = store.issue('svn_revert', { paths: 'a.txt' });
+    expect(store.consume('svn_revert', { paths: 'a.txt' }, token)).toBe(false);
+  });
+});
+
+describe('Protected paths', () => {
+  let dir: string;
+  let fakeSvn: string;
+
+  beforeAll(() => {
+    dir = makeTempDir('svn-policy-');
+    // A working copy of ^/tags/1.0; URLs on another server only resolve from the repository root down to tags/
+    fakeSvn = writeFakeSvn(dir, `
+if (args[0] === 'info' && args[1] === '--show-item') {
+  if (/\\/x$/.test(args[3])) { process.stderr.write("svn: E170000: URL doesn't exist\\n"); process.exit(1); }
+  process.stdout.write('https://other.example.com/repo\\n');
+  process.exit(0);
+}
+if (args[0] === 'info') {
+  process.stdout.write('<?xml version="1.0"?><info><entry kind="dir" path="." revision="7"><url>https://svn.example.com/repo/tags/1.0</url><relative-url>^/tags/1.0</relative-url><repository><root>https://svn.example.com/repo</root><uuid>u</uuid></repository><wc-info><wcroot-abspath>${dir}</wcroot-abspath></wc-info><commit revision="7"><author>ana</author><date>2024-01-01T00:00:00.000000Z</date></commit></entry></info>');
+  process.exit(0);
+}
+process.stdout.write('Committed revision 8.\\n');
+`);
+  });
+
+  afterAll(() => {
+    removeTempDir(dir);
+  });
+
+  posixIt('should refuse to commit a working copy under a protected path', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['tags/**'] });
+    await expect(svnService.commit({ message: 'Change a tag' }))
+      .rejects.toThrow('Path is protected by the server policy (tags/**)');
+  });
+
+  posixIt('should let unprotected changes through', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['branches/**'] });
+    const result = await svnService.commit({ message: 'Change a tag' });
+    expect(result.success).toBe(true);
+  });
+
+  posixIt('should allow creating a tag while its contents stay protected', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['tags/*/**'] });
+    const result = await svnService.createTag('2.0');
+    expect(result.data).toContain('https://svn.example.com/repo/tags/2.0');
+
+    await expect(new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['tags/**'] }).createTag('2.0'))
+      .rejects.toThrow('protected by the server policy');
+  });
+
+  posixIt('should find the repository root of URLs from other repositories', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['tags/**'] });
+    await expect(svnService.copy('https://other.example.com/repo/trunk', 'https://other.example.com/repo/tags/x', { message: 'Tag' }))
+      .rejects.toThrow('protected by the server policy');
+  });
+
+  posixIt('should delete repository URLs with a message', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, protectedPaths: ['tags/**'] });
+    const result = await svnService.delete('https://other.example.com/repo/branches/old', { message: 'Drop branch' });
+    expect(result.command).toContain('https://other.example.com/repo/branches/old');
+
+    await expect(svnService.delete('https://other.example.com/repo/branches/old'))
+      .rejects.toThrow('requires a message');
+    await expect(svnService.delete('https://other.example.com/repo/tags/1.0', { message: 'Drop tag' }))
+      .rejects.toThrow('protected by the server policy');
+  });
+});
@@ -0,0 +1,5 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// The shared logger reads SVN_LOG_FILE when it is first imported: keep test runs out of the user's log directory
+process.env.SVN_LOG_FILE = path.join(os.tmpdir(), 'mcp-svn-tests', 'mcp-svn.log');
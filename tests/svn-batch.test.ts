@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateBatchOperations } from '../common/utils';
+import { SvnBatchOperation } from '../common/types';
+import { SvnService } from '../tools/svn-service';
+
+describe('Batch operation validation', () => {
+  it('should accept a valid refactor', () => {
+    expect(validateBatchOperations([
+      { type: 'move', source: 'src/old', target: 'src/new' },
+      { type: 'add', source: 'src/new/index.ts' },
+      { type: 'copy', source: 'https://svn.example.com/repo/trunk/lib', target: 'vendor/lib' },
+      { type: 'delete', source: 'docs/obsolete.md' }
+    ])).toEqual([]);
+  });
+
+  it('should report every problem at once', () => {
+    expect(validateBatchOperations([
+      { type: 'move', source: 'src/old' },
+      { type: 'add', source: 'https://svn.example.com/repo/trunk/a.ts' },
+      { type: 'revert', source: 'src/app.ts', target: 'src/other.ts' },
+      { type: 'copy', source: 'src|bad', target: 'src/copy' },
+      { type: 'rename', source: 'a' } as unknown as SvnBatchOperation
+    ])).toEqual([
+      'Operation 1 (move): a target is required',
+      'Operation 2 (add): add only works on working copy paths',
+      'Operation 3 (revert): does not take a target',
+      "Operation 4 (copy): invalid source 'src|bad'",
+      'Operation 5 (rename): unknown operation type'
+    ]);
+  });
+
+  it('should reject an empty batch', () => {
+    expect(validateBatchOperations([])).toEqual(['No operations given']);
+  });
+
+  it('should not run anything when a path is invalid', async () => {
+    const svnService = new SvnService();
+
+    await expect(svnService.batch([
+      { type: 'copy', source: 'https://svn.example.com/repo/trunk/a', target: 'b' },
+      { type: 'delete', source: 'missing/file|name' }
+    ])).rejects.toThrow('Invalid batch, nothing was run');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBlameOutput } from '../common/utils';
+import { SvnService } from '../tools/svn-service';
+import { posixIt, makeTempDir, removeTempDir, writeFakeSvn } from './helpers/fake-svn';
+
+describe('svn blame --xml parsing', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<blame>
+<target
+   path="src/app.ts">
+<entry
+   line-number="1">
+<commit
+   revision="12">
+<author>alice</author>
+<date>2024-01-10T09:00:00.000000Z</date>
+</commit>
+</entry>
+<entry
+   line-number="2">
+<commit
+   revision="15">
+<author>b&amp;o</author>
+<date>2024-02-01T10:30:00.000000Z</date>
+</commit>
+</entry>
+<entry
+   line-number="3">
+</entry>
+</target>
+</blame>`;
+
+  it('should return one line per entry with revision, author and date', () => {
+    const lines = parseBlameOutput(xml);
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual({
+      revision: 12,
+      author: 'alice',
+      date: '2024-01-10T09:00:00.000000Z',
+      lineNumber: 1,
+      content: ''
+    });
+    expect(lines[1].author).toBe('b&o');
+  });
+
+  it('should mark uncommitted lines with revision 0', () => {
+    const lines = parseBlameOutput(xml);
+
+    expect(lines[2].revision).toBe(0);
+    expect(lines[2].author).toBe('');
+  });
+
+  it('should fill line content from the file contents', () => {
+    const lines = parseBlameOutput(xml, '  const a = 1;\r\nconst b = 2;\n// local edit\n');
+
+    expect(lines.map(line => line.content)).toEqual(['  const a = 1;', 'const b = 2;', '// local edit']);
+  });
+});
+
+describe('SvnService blame', () => {
+  let dir: string;
+  let fakeSvn: string;
+
+  beforeAll(() => {
+    dir = makeTempDir('svn-blame-');
+    fs.mkdirSync(path.join(dir, '.svn'));
+    fs.writeFileSync(path.join(dir, 'app.ts'), 'const a = 1;\nconst b = 3;\n');
+    // BASE has the old second line; blame reports it as a local change
+    fakeSvn = writeFakeSvn(dir, `
+if (args[0] === 'blame') {
+  process.stdout.write('<?xml version="1.0"?><blame><target path="app.ts"><entry line-number="1"><commit revision="4"><author>ana</author><date>2024-01-01T00:00:00.000000Z</date></commit></entry><entry line-number="2"></entry></target></blame>');
+  process.exit(0);
+}
+if (args[0] === 'log') {
+  const revisions = args[args.indexOf('--change') + 1].split(',');
+  process.stdout.write('<?xml version="1.0"?><log>' + revisions.map(rev => '<logentry revision="' + rev + '"><author>ana</author><date>2024-01-01T00:00:00.000000Z</date><msg>Change ' + rev + '</msg></logentry>').join('') + '</log>');
+  process.exit(0);
+}
+process.stdout.write('const a = 1;\\nconst b = 2;\\n');
+`);
+  });
+
+  afterAll(() => {
+    removeTempDir(dir);
+  });
+
+  posixIt('should show local changes of a working copy file', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir });
+    const result = await svnService.blame('app.ts');
+
+    expect(result.data!.lines.map(line => [line.revision, line.content])).toEqual([[4, 'const a = 1;'], [0, 'const b = 3;']]);
+  });
+
+  posixIt('should read the requested revision with cat', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir });
+    const result = await svnService.blame('app.ts', { revision: 'BASE' });
+
+    expect(result.data!.lines[1].content).toBe('const b = 2;');
+  });
+
+  posixIt('should refuse working copy revisions on URLs', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir });
+
+    await expect(svnService.blame('https://svn.example.com/repo/trunk/app.ts', { revision: 'BASE' }))
+      .rejects.toThrow('BASE only applies to working copy paths, not URLs');
+  });
+
+  posixIt('should read the messages of several revisions with one svn log', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir });
+    const result = await svnService.getLogEntries('app.ts', [4, 9]);
+
+    expect(result.command).toContain('--change 4,9');
+    expect(result.data!.map(entry => [entry.revision, entry.message])).toEqual([[4, 'Change 4'], [9, 'Change 9']]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseListOutput, resolveRepositoryLayout, formatRevisionList, parseDiffSummary, findBranchOrigin, findCommonAncestor, parseLogOutput } from '../common/utils';
+import { SvnInfo } from '../common/types';
+
+function infoFor(relativeUrl: string): SvnInfo {
+  return {
+    path: '.',
+    workingCopyRootPath: '/work/app',
+    url: `https://svn.example.com/repo${relativeUrl.slice(1)}`,
+    relativeUrl,
+    repositoryRoot: 'https://svn.example.com/repo',
+    repositoryUuid: 'uuid',
+    revision: 100,
+    nodeKind: 'directory',
+    schedule: 'normal',
+    lastChangedAuthor: 'alice',
+    lastChangedRev: 99,
+    lastChangedDate: '2024-01-01'
+  };
+}
+
+describe('Repository layout discovery', () => {
+  it('should detect a layout at the repository root', () => {
+    const layout = resolveRepositoryLayout(infoFor('^/trunk'));
+
+    expect(layout.projectRoot).toBe('https://svn.example.com/repo');
+    expect(layout.trunkUrl).toBe('https://svn.example.com/repo/trunk');
+    expect(layout.branchesUrl).toBe('https://svn.example.com/repo/branches');
+    expect(layout.tagsUrl).toBe('https://svn.example.com/repo/tags');
+    expect(layout.currentBranch).toBe('trunk');
+  });
+
+  it('should detect a project nested in the repository from a branch subdirectory', () => {
+    const layout = resolveRepositoryLayout(infoFor('^/crm/branches/release-1.2/src/main'));
+
+    expect(layout.projectRoot).toBe('https://svn.example.com/repo/crm');
+    expect(layout.branchesUrl).toBe('https://svn.example.com/repo/crm/branches');
+    expect(layout.currentBranch).toBe('branches/release-1.2');
+  });
+
+  it('should fall back to the current URL for non-standard layouts', () => {
+    const layout = resolveRepositoryLayout(infoFor('^/project'));
+
+    expect(layout.projectRoot).toBe('https://svn.example.com/repo/project');
+    expect(layout.currentBranch).toBeUndefined();
+  });
+});
+
+describe('svn list --xml parsing', () => {
+  it('should parse entries with kind, size and commit metadata', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<lists>
+<list
+   path="https://svn.example.com/repo/branches">
+<entry
+   kind="dir">
+<name>release-1.2</name>
+<commit
+   revision="120">
+<author>bob</author>
+<date>2024-03-01T12:00:00.000000Z</date>
+</commit>
+</entry>
+<entry
+   kind="file">
+<name>README &amp; notes.txt</name>
+<size>42</size>
+<commit
+   revision="7">
+<author>alice</author>
+<date>2023-12-01T12:00:00.000000Z</date>
+</commit>
+</entry>
+</list>
+</lists>`;
+
+    const entries = parseListOutput(xml);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual({
+      name: 'release-1.2',
+      kind: 'directory',
+      size: undefined,
+      lastChangedRev: 120,
+      lastChangedAuthor: 'bob',
+      lastChangedDate: '2024-03-01T12:00:00.000000Z'
+    });
+    expect(entries[1].name).toBe('README & notes.txt');
+    expect(entries[1].kind).toBe('file');
+    expect(entries[1].size).toBe(42);
+  });
+});
+
+describe('Branch comparison helpers', () => {
+  it('should compact revision lists into ranges', () => {
+    expect(formatRevisionList([9, 5, 6, 7, 12, 13, 20])).toBe('5-7,9,12-13,20');
+    expect(formatRevisionList([42])).toBe('42');
+  });
+
+  it('should parse a diff summary relative to the compared URLs', () => {
+    const entries = parseDiffSummary(`<?xml version="1.0" encoding="UTF-8"?>
+<diff>
+<paths>
+<path item="modified" props="none" kind="file">https://svn.example.com/repo/trunk/src/app.ts</path>
+<path item="added" props="none" kind="dir">https://svn.example.com/repo/trunk/src/new%20module</path>
+<path item="none" props="modified" kind="dir">https://svn.example.com/repo/trunk</path>
+</paths>
+</diff>`, 'https://svn.example.com/repo/trunk', 'https://svn.example.com/repo/branches/feature');
+
+    expect(entries).toEqual([
+      { path: 'src/app.ts', item: 'modified', props: 'none', kind: 'file' },
+      { path: 'src/new module', item: 'added', props: 'none', kind: 'directory' },
+      { path: '.', item: 'none', props: 'modified', kind: 'directory' }
+    ]);
+  });
+
+  it('should find where a branch was copied from', () => {
+    const log = parseLogOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry revision="120">
+<author>alice</author>
+<date>2024-02-01T10:00:00.000000Z</date>
+<paths>
+<path action="A" kind="dir" copyfrom-path="/trunk" copyfrom-rev="118">/branches/feature</path>
+</paths>
+<msg>Create feature branch</msg>
+</logentry>
+</log>`);
+
+    expect(findBranchOrigin(log, '/branches/feature')).toEqual({ path: '/trunk', revision: 118 });
+    expect(findBranchOrigin(log, '/branches/other')).toBeUndefined();
+  });
+
+  it('should resolve the common ancestor of two branches', () => {
+    const trunk = { path: '/trunk' };
+    const feature = { path: '/branches/feature', origin: { path: '/trunk', revision: 118 } };
+    const hotfix = { path: '/branches/hotfix', origin: { path: '/trunk', revision: 140 } };
+    const subFeature = { path: '/branches/sub', origin: { path: '/branches/feature', revision: 150 } };
+
+    expect(findCommonAncestor(feature, trunk)).toEqual({ path: '/trunk', revision: 118 });
+    expect(findCommonAncestor(trunk, feature)).toEqual({ path: '/trunk', revision: 118 });
+    expect(findCommonAncestor(feature, hotfix)).toEqual({ path: '/trunk', revision: 118 });
+    expect(findCommonAncestor(subFeature, feature)).toEqual({ path: '/branches/feature', revision: 150 });
+    expect(findCommonAncestor(subFeature, trunk)).toBeUndefined();
+  });
+});
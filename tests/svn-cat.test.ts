@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { isBinaryMimeType, truncateToBytes } from '../common/utils';
+import { SvnService } from '../tools/svn-service';
+import { posixIt, makeTempDir, removeTempDir, writeFakeSvn } from './helpers/fake-svn';
+
+describe('svn cat helpers', () => {
+  it('should detect binary MIME types the way svn does', () => {
+    expect(isBinaryMimeType(undefined)).toBe(false);
+    expect(isBinaryMimeType('text/plain; charset=utf-8')).toBe(false);
+    expect(isBinaryMimeType('application/xml')).toBe(false);
+    expect(isBinaryMimeType('image/svg+xml')).toBe(false);
+    expect(isBinaryMimeType('application/octet-stream')).toBe(true);
+    expect(isBinaryMimeType('image/png')).toBe(true);
+  });
+
+  it('should truncate without splitting multi-byte characters', () => {
+    expect(truncateToBytes('hello', 10)).toEqual({ content: 'hello', truncated: false });
+    expect(truncateToBytes('hello world', 5)).toEqual({ content: 'hello', truncated: true });
+    // 'ñ' takes two bytes: cutting at 2 would split it
+    expect(truncateToBytes('añb', 2)).toEqual({ content: 'a', truncated: true });
+  });
+});
+
+describe('SvnService cat', () => {
+  let dir: string;
+  let fakeSvn: string;
+
+  beforeAll(() => {
+    dir = makeTempDir('svn-cat-');
+    // cat keeps writing for a minute: only stopping it at maxBytes lets the test finish in time
+    fakeSvn = writeFakeSvn(dir, `
+if (args[0] === 'proplist') {
+  process.stdout.write('<?xml version="1.0"?><properties></properties>');
+  process.exit(0);
+}
+if (args[0] === 'list') {
+  process.stdout.write('<?xml version="1.0"?><lists><list path="x"><entry kind="file"><name>big.log</name><size>52428800</size><commit revision="3"><author>ana</author><date>2024-01-01T00:00:00.000000Z</date></commit></entry></list></lists>');
+  process.exit(0);
+}
+const chunk = 'ñ'.repeat(32 * 1024);
+const write = () => process.stdout.write(chunk, () => setTimeout(write, 10));
+write();
+setTimeout(() => process.exit(0), 60000);
+`);
+  });
+
+  afterAll(() => {
+    removeTempDir(dir);
+  });
+
+  posixIt('should stop reading at maxBytes and report the full size', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir });
+    const result = await svnService.cat('https://svn.example.com/repo/trunk/big.log', { maxBytes: 1001 });
+
+    expect(result.data).toMatchObject({ truncated: true, binary: false, size: 52428800 });
+    expect(result.data!.content).toBe('ñ'.repeat(500));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseConflictStatus, parseConflictInfo } from '../common/utils';
+
+describe('Conflict detection from svn status --xml', () => {
+  it('should detect text, property and tree conflicts', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path=".">
+<entry path="src/app.ts">
+<wc-status item="conflicted" props="none" revision="12"></wc-status>
+</entry>
+<entry path="docs">
+<wc-status item="normal" props="conflicted" revision="12"></wc-status>
+</entry>
+<entry path="src/removed.ts">
+<wc-status item="missing" props="none" tree-conflicted="true"></wc-status>
+</entry>
+<entry path="src/ok.ts">
+<wc-status item="modified" props="none" revision="12"></wc-status>
+</entry>
+<entry path="build.xml">
+<wc-status item="conflicted" props="conflicted" revision="12"></wc-status>
+</entry>
+</target>
+</status>`;
+
+    expect(parseConflictStatus(xml)).toEqual([
+      { path: 'src/app.ts', kinds: ['text'] },
+      { path: 'docs', kinds: ['property'] },
+      { path: 'src/removed.ts', kinds: ['tree'] },
+      { path: 'build.xml', kinds: ['text', 'property'] }
+    ]);
+  });
+});
+
+describe('Conflict details from svn info --xml', () => {
+  it('should fill the auxiliary conflict files', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry kind="file" path="src/app.ts" revision="12">
+<conflict type="text" operation="update">
+<prev-base-file>app.ts.r10</prev-base-file>
+<prev-wc-file>app.ts.mine</prev-wc-file>
+<cur-base-file>app.ts.r12</cur-base-file>
+</conflict>
+<conflict type="property" operation="update">
+<prop-file>app.ts.prej</prop-file>
+</conflict>
+</entry>
+</info>`;
+
+    const conflict = parseConflictInfo(xml, { path: 'src/app.ts', kinds: ['text', 'property'] });
+
+    expect(conflict.mineFile).toBe('app.ts.mine');
+    expect(conflict.baseFile).toBe('app.ts.r10');
+    expect(conflict.theirsFile).toBe('app.ts.r12');
+    expect(conflict.propertyRejectFile).toBe('app.ts.prej');
+  });
+
+  it('should describe the tree conflict', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry kind="none" path="src/removed.ts" revision="12">
+<tree-conflict victim="removed.ts" kind="file" operation="update" action="delete" reason="edit"></tree-conflict>
+</entry>
+</info>`;
+
+    const conflict = parseConflictInfo(xml, { path: 'src/removed.ts', kinds: ['tree'] });
+
+    expect(conflict.treeConflictDescription).toBe('local edit, incoming delete upon update');
+  });
+});
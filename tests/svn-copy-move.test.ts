@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SvnService } from '../tools/svn-service';
+
+describe('SvnService copy and move validation', () => {
+  const svnService = new SvnService();
+  const trunk = 'https://svn.example.com/repo/trunk';
+
+  it('should require a message when copying to a URL', async () => {
+    await expect(svnService.copy(`${trunk}/src`, `${trunk}/src-copy`))
+      .rejects.toThrow('A commit message is required when copying to a repository URL');
+  });
+
+  it('should require a message when moving in the repository', async () => {
+    await expect(svnService.move(`${trunk}/old`, `${trunk}/new`))
+      .rejects.toThrow('A commit message is required when moving in the repository');
+  });
+
+  it('should reject moves between a working copy and a URL', async () => {
+    await expect(svnService.move('src/old', `${trunk}/new`, { message: 'Move' }))
+      .rejects.toThrow('Sources and destination must be all working copy paths or all repository URLs');
+  });
+
+  it('should reject invalid destinations', async () => {
+    await expect(svnService.copy(`${trunk}/src`, 'src/bad|name'))
+      .rejects.toThrow('Invalid path or URL');
+  });
+});
+
+describe('SvnService copy and move destinations', () => {
+  let root: string;
+  const trunk = 'https://svn.example.com/repo/trunk';
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'svn-destinations-'));
+    fs.mkdirSync(path.join(root, '.svn'));
+    fs.writeFileSync(path.join(root, 'a.ts'), '');
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should refuse destinations that escape the working copy', async () => {
+    const svnService = new SvnService({ workingDirectory: root });
+
+    await expect(svnService.copy(`${trunk}/src`, '../escaped')).rejects.toThrow('Path is outside the working copy: ../escaped');
+    await expect(svnService.move('a.ts', path.join(os.tmpdir(), 'escaped.ts'))).rejects.toThrow('Path is outside the working copy');
+  });
+
+  it('should refuse batch copies and moves out of the working copy before running anything', async () => {
+    const svnService = new SvnService({ workingDirectory: root });
+
+    await expect(svnService.batch([
+      { type: 'copy', source: 'a.ts', target: 'b.ts' },
+      { type: 'move', source: 'b.ts', target: '../../b.ts' }
+    ])).rejects.toThrow('Operation 2 (move): Path is outside the working copy: ../../b.ts');
+  });
+});
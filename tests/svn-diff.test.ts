@@ -0,0 +1,93 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDiffOutput } from '../common/utils';
+
+describe('svn diff parsing', () => {
+  const output = [
+    'Index: src/app.ts',
+    '===================================================================',
+    '--- src/app.ts\t(revision 10)',
+    '+++ src/app.ts\t(working copy)',
+    '@@ -1,3 +1,4 @@',
+    ' import a;',
+    '-const b = 1;',
+    '+const b = 2;',
+    '+const c = 3;',
+    ' export {};',
+    '\\ No newline at end of file',
+    '',
+    'Property changes on: src/app.ts',
+    '___________________________________________________________________',
+    'Added: svn:eol-style',
+    '## -0,0 +1 ##',
+    '+native',
+    'Index: src/new.ts',
+    '===================================================================',
+    '--- src/new.ts\t(nonexistent)',
+    '+++ src/new.ts\t(working copy)',
+    '@@ -0,0 +1,2 @@',
+    '+line one',
+    '+line two',
+    'Index: src/old.ts',
+    '===================================================================',
+    '--- src/old.ts\t(revision 10)',
+    '+++ src/old.ts\t(nonexistent)',
+    '@@ -1 +0,0 @@',
+    '-gone',
+    'Index: assets/logo.png',
+    '===================================================================',
+    'Cannot display: file marked as a binary type.',
+    'svn:mime-type = application/octet-stream',
+    '',
+    'Property changes on: docs',
+    '___________________________________________________________________',
+    'Modified: svn:ignore',
+    '## -1 +1,2 ##',
+    '-build',
+    '+build',
+    '+dist'
+  ].join('\n');
+
+  const files = parseDiffOutput(output);
+
+  it('should return one entry per file, including property-only changes', () => {
+    expect(files.map(file => file.newPath)).toEqual(['src/app.ts', 'src/new.ts', 'src/old.ts', 'assets/logo.png', 'docs']);
+  });
+
+  it('should number old and new lines in hunks', () => {
+    const hunk = files[0].hunks[0];
+
+    expect(hunk).toMatchObject({ oldStart: 1, oldCount: 3, newStart: 1, newCount: 4 });
+    expect(hunk.lines).toEqual([
+      { type: 'context', content: 'import a;', oldLineNumber: 1, newLineNumber: 1 },
+      { type: 'deleted', content: 'const b = 1;', oldLineNumber: 2 },
+      { type: 'added', content: 'const b = 2;', newLineNumber: 2 },
+      { type: 'added', content: 'const c = 3;', newLineNumber: 3 },
+      { type: 'context', content: 'export {};', oldLineNumber: 3, newLineNumber: 4 }
+    ]);
+    expect(files[0].oldRevision).toBe(10);
+    expect(files[0].newRevision).toBeUndefined();
+  });
+
+  it('should count additions and deletions per file', () => {
+    expect([files[0].additions, files[0].deletions]).toEqual([2, 1]);
+    expect([files[1].additions, files[1].deletions]).toEqual([2, 0]);
+  });
+
+  it('should detect added, deleted and binary files', () => {
+    expect(files[0].changeType).toBe('modified');
+    expect(files[1].changeType).toBe('added');
+    expect(files[2].changeType).toBe('deleted');
+    expect(files[2].hunks[0]).toMatchObject({ oldStart: 1, oldCount: 1, newStart: 0, newCount: 0 });
+    expect(files[3].binary).toBe(true);
+    expect(files[3].hunks).toHaveLength(0);
+  });
+
+  it('should parse property changes', () => {
+    expect(files[0].propertyChanges).toEqual([
+      { name: 'svn:eol-style', action: 'added', newValue: 'native' }
+    ]);
+    expect(files[4].propertyChanges).toEqual([
+      { name: 'svn:ignore', action: 'modified', oldValue: 'build', newValue: 'build\ndist' }
+    ]);
+  });
+});
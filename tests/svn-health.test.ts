@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { analyzeWorkingCopyHealth, healthIssueFromError, revisionRange } from '../common/utils';
+import { SvnStatus } from '../common/types';
+
+describe('Working copy health analysis', () => {
+  const statusList: SvnStatus[] = [
+    { path: '.', status: 'normal', revision: 120 },
+    { path: 'src/app.ts', status: 'modified', revision: 120 },
+    { path: 'src/conflict.ts', status: 'conflicted', propStatus: 'conflicted', revision: 120 },
+    { path: 'src/gone.ts', status: 'missing', revision: 118 },
+    { path: 'src/blocked', status: 'obstructed', revision: 120 },
+    { path: 'lib', status: 'normal', revision: 120, switched: true },
+    { path: 'tmp', status: 'normal', revision: 120, workingCopyLocked: true },
+    { path: 'new.ts', status: 'added', revision: 0 },
+    { path: 'notes.txt', status: 'unversioned' }
+  ];
+
+  it('should report every problem with a suggestion', () => {
+    const issues = analyzeWorkingCopyHealth(statusList, { headRevision: 125, brokenExternals: ['vendor/lib'] });
+    const summary = issues.map(issue => [issue.type, issue.path, issue.message]);
+
+    expect(summary).toEqual([
+      ['error', 'src/conflict.ts', 'Unresolved text and property conflict'],
+      ['warning', 'src/gone.ts', 'Versioned item is missing on disk (!)'],
+      ['warning', 'src/blocked', 'Versioned item is obstructed by an item of a different kind (~)'],
+      ['warning', 'lib', 'Subtree is switched to a different URL than its parent'],
+      ['error', 'tmp', 'Working copy is locked by an interrupted or running operation'],
+      ['warning', 'vendor/lib', 'External definition was not checked out'],
+      ['warning', undefined, 'Mixed revisions in the working copy (r118 to r120)'],
+      ['warning', undefined, 'Working copy is out of date: the branch changed in r125, the working copy is at r120'],
+      ['info', undefined, '3 path(s) with uncommitted changes']
+    ]);
+    expect(issues.every(issue => issue.suggestion)).toBe(true);
+  });
+
+  it('should report nothing for a clean, up-to-date working copy', () => {
+    const clean: SvnStatus[] = [
+      { path: '.', status: 'normal', revision: 120 },
+      { path: 'src/app.ts', status: 'normal', revision: 120 }
+    ];
+
+    expect(analyzeWorkingCopyHealth(clean, { headRevision: 120 })).toEqual([]);
+    expect(revisionRange(clean)).toEqual({ minRevision: 120, maxRevision: 120 });
+  });
+
+  it('should turn svn errors into issues', () => {
+    expect(healthIssueFromError({ message: 'failed', stderr: "svn: E155037: Previous operation has not finished; run 'cleanup' if it was interrupted" }))
+      .toMatchObject({ type: 'error', message: 'A previous operation was interrupted' });
+    expect(healthIssueFromError({ message: 'failed', stderr: 'svn: E155021: This client is too old to work with the working copy' }))
+      .toMatchObject({ type: 'error', message: 'The SVN client is older than the working copy format' });
+    expect(healthIssueFromError({ message: 'failed', stderr: "svn: E155036: The working copy at '/work' is too old (format 10) to work with client version '1.14.2'" }))
+      .toMatchObject({ type: 'error', message: 'The working copy format is older than the SVN client' });
+    expect(healthIssueFromError({ message: 'failed', stderr: 'svn: E175002: Unable to connect to a repository' }))
+      .toMatchObject({ type: 'warning', message: 'Cannot connect to the repository' });
+  });
+});
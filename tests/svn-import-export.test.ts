@@ -0,0 +1,21 @@
+import { describe, it, expect } from '@jest/globals';
+import { SvnService } from '../tools/svn-service';
+
+describe('SvnService import and export validation', () => {
+  const svnService = new SvnService();
+
+  it('should reject importing from a URL', async () => {
+    await expect(svnService.import('https://svn.example.com/repo/a', 'https://svn.example.com/repo/b', { message: 'Import' }))
+      .rejects.toThrow('Invalid local path');
+  });
+
+  it('should require a message to import', async () => {
+    await expect(svnService.import('dist', 'https://svn.example.com/repo/vendor', { message: '' }))
+      .rejects.toThrow('Import message is required');
+  });
+
+  it('should reject exporting to a URL', async () => {
+    await expect(svnService.export('https://svn.example.com/repo/trunk', 'https://svn.example.com/repo/out'))
+      .rejects.toThrow('Invalid local path');
+  });
+});
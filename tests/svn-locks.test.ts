@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseStatusOutput, parseLockInfo, collectLocks } from '../common/utils';
+
+describe('Lock listing', () => {
+  const statusXml = `<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path=".">
+<entry path="design/logo.psd">
+<wc-status item="normal" props="normal" revision="30">
+<lock>
+<token>opaquelocktoken:1111</token>
+<owner>alice</owner>
+<comment>recolouring</comment>
+<created>2024-03-01T10:00:00.000000Z</created>
+</lock>
+</wc-status>
+<repos-status item="none" props="none">
+<lock>
+<token>opaquelocktoken:1111</token>
+<owner>alice</owner>
+<created>2024-03-01T10:00:00.000000Z</created>
+</lock>
+</repos-status>
+</entry>
+<entry path="design/banner.psd">
+<wc-status item="normal" props="normal" revision="30"></wc-status>
+<repos-status item="none" props="none">
+<lock>
+<token>opaquelocktoken:2222</token>
+<owner>bob</owner>
+<created>2024-03-02T09:00:00.000000Z</created>
+<expires>2024-03-09T09:00:00.000000Z</expires>
+</lock>
+</repos-status>
+</entry>
+<entry path="design/icon.psd">
+<wc-status item="normal" props="normal" revision="30">
+<lock>
+<token>opaquelocktoken:3333</token>
+<owner>alice</owner>
+<created>2024-02-01T10:00:00.000000Z</created>
+</lock>
+</wc-status>
+<repos-status item="none" props="none">
+<lock>
+<token>opaquelocktoken:4444</token>
+<owner>carol</owner>
+<created>2024-03-03T08:00:00.000000Z</created>
+</lock>
+</repos-status>
+</entry>
+<entry path="design/old.psd">
+<wc-status item="normal" props="normal" revision="30">
+<lock>
+<token>opaquelocktoken:5555</token>
+<owner>alice</owner>
+<created>2024-01-01T10:00:00.000000Z</created>
+</lock>
+</wc-status>
+<repos-status item="none" props="none"></repos-status>
+</entry>
+<entry path="src/app.ts">
+<wc-status item="modified" props="none" revision="30"></wc-status>
+<repos-status item="none" props="none"></repos-status>
+</entry>
+</target>
+</status>`;
+
+  it('should classify held, foreign, stolen and broken locks', () => {
+    const locks = collectLocks(parseStatusOutput(statusXml));
+
+    expect(locks.map(lock => [lock.path, lock.state, lock.owner])).toEqual([
+      ['design/logo.psd', 'held', 'alice'],
+      ['design/banner.psd', 'other', 'bob'],
+      ['design/icon.psd', 'stolen', 'carol'],
+      ['design/old.psd', 'broken', 'alice']
+    ]);
+    expect(locks[1]).toMatchObject({
+      token: 'opaquelocktoken:2222',
+      created: '2024-03-02T09:00:00.000000Z',
+      expires: '2024-03-09T09:00:00.000000Z'
+    });
+  });
+
+  it('should fill missing details from svn info', () => {
+    const infoLocks = parseLockInfo(`<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry kind="file" path="design/logo.psd" revision="30">
+<url>https://svn.example.com/repo/trunk/design/logo.psd</url>
+<lock>
+<token>opaquelocktoken:1111</token>
+<owner>alice</owner>
+<comment>recolouring</comment>
+<created>2024-03-01T10:00:00.000000Z</created>
+<expires>2024-04-01T10:00:00.000000Z</expires>
+</lock>
+</entry>
+<entry kind="file" path="src/app.ts" revision="30">
+<url>https://svn.example.com/repo/trunk/src/app.ts</url>
+</entry>
+</info>`);
+
+    expect(infoLocks).toHaveLength(1);
+
+    const [logo] = collectLocks(parseStatusOutput(statusXml), infoLocks);
+    expect(logo).toMatchObject({
+      path: 'design/logo.psd',
+      comment: 'recolouring',
+      expires: '2024-04-01T10:00:00.000000Z',
+      state: 'held'
+    });
+  });
+});
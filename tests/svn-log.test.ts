@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseLogOutput } from '../common/utils';
+
+describe('svn log --xml parsing', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry
+   revision="42">
+<author>alice</author>
+<date>2024-05-01T10:00:00.000000Z</date>
+<paths>
+<path
+   text-mods="true"
+   kind="file"
+   action="M"
+   prop-mods="false">/trunk/src/app.ts</path>
+<path
+   kind="dir"
+   action="A"
+   copyfrom-path="/trunk"
+   copyfrom-rev="41">/branches/release-1.0</path>
+</paths>
+<msg>Fix parser | handle pipes
+------------------------------------------------------------------------
+Second paragraph with &lt;tags&gt; &amp; entities</msg>
+</logentry>
+<logentry
+   revision="40">
+<date>2024-04-30T10:00:00.000000Z</date>
+<msg></msg>
+</logentry>
+</log>`;
+
+  it('should keep multi-line messages with pipes and dash lines intact', () => {
+    const entries = parseLogOutput(xml);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].message).toBe(
+      'Fix parser | handle pipes\n' +
+      '------------------------------------------------------------------------\n' +
+      'Second paragraph with <tags> & entities'
+    );
+  });
+
+  it('should populate changed paths with copy sources', () => {
+    const entries = parseLogOutput(xml);
+
+    expect(entries[0].changedPaths).toEqual([
+      { action: 'M', path: '/trunk/src/app.ts' },
+      { action: 'A', path: '/branches/release-1.0', copyFromPath: '/trunk', copyFromRev: 41 }
+    ]);
+  });
+
+  it('should handle entries without author, message or paths', () => {
+    const entries = parseLogOutput(xml);
+
+    expect(entries[1]).toEqual({
+      revision: 40,
+      author: '',
+      date: '2024-04-30T10:00:00.000000Z',
+      message: ''
+    });
+  });
+
+  it('should return no entries for empty output', () => {
+    expect(parseLogOutput('')).toEqual([]);
+  });
+});
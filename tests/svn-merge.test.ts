@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseMergeOutput, parseMergeInfoRevisions } from '../common/utils';
+
+describe('svn merge output parsing', () => {
+  const output = [
+    "--- Merging r120 through r125 into '.':",
+    'U    src/app.ts',
+    'A    src/new-feature.ts',
+    'D    src/legacy.ts',
+    'C    src/config.ts',
+    ' U   docs',
+    '   C src/moved',
+    "--- Recording mergeinfo for merge of r120 through r125 into '.':",
+    ' U   .',
+    'Summary of conflicts:',
+    '  Text conflicts: 1',
+    '  Tree conflicts: 1'
+  ].join('\n');
+
+  it('should list every changed file with its action', () => {
+    const result = parseMergeOutput(output, true);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.changes.map(change => [change.path, change.action])).toEqual([
+      ['src/app.ts', 'updated'],
+      ['src/new-feature.ts', 'added'],
+      ['src/legacy.ts', 'deleted'],
+      ['src/config.ts', 'conflicted'],
+      ['docs', undefined],
+      ['src/moved', 'conflicted']
+    ]);
+  });
+
+  it('should report property changes and tree conflicts', () => {
+    const result = parseMergeOutput(output);
+
+    expect(result.changes.find(change => change.path === 'docs')?.propertyAction).toBe('updated');
+    expect(result.changes.find(change => change.path === 'src/moved')?.treeConflict).toBe(true);
+  });
+
+  it('should keep property-only changes apart from text changes', () => {
+    const result = parseMergeOutput([
+      "--- Merging r130 into '.':",
+      ' U   src/lib',
+      'UG   src/app.ts',
+      ' C   src/conf'
+    ].join('\n'));
+
+    expect(result.changes).toEqual([
+      { path: 'src/lib', action: undefined, propertyAction: 'updated', treeConflict: undefined },
+      { path: 'src/app.ts', action: 'updated', propertyAction: 'merged', treeConflict: undefined },
+      { path: 'src/conf', action: undefined, propertyAction: 'conflicted', treeConflict: undefined }
+    ]);
+    expect(result.conflicts).toEqual(['src/conf']);
+  });
+
+  it('should not count mergeinfo updates as changed files', () => {
+    const result = parseMergeOutput(output);
+
+    expect(result.changes.map(change => change.path)).not.toContain('.');
+    expect(result.mergeinfoPaths).toEqual(['.']);
+
+    const mergeinfoOnly = parseMergeOutput([
+      "--- Recording mergeinfo for merge of r140 into '.':",
+      ' U   .',
+      "--- Eliding mergeinfo from 'src':",
+      ' U   src'
+    ].join('\n'), true);
+    expect(mergeinfoOnly.changes).toEqual([]);
+    expect(mergeinfoOnly.mergeinfoPaths).toEqual(['.', 'src']);
+  });
+
+  it('should collect conflicted paths', () => {
+    const result = parseMergeOutput(output);
+
+    expect(result.conflicts).toEqual(['src/config.ts', 'src/moved']);
+  });
+});
+
+describe('svn mergeinfo --show-revs parsing', () => {
+  it('should extract revision numbers including non-inheritable markers', () => {
+    expect(parseMergeInfoRevisions('r101\nr105*\n\nr110')).toEqual([101, 105, 110]);
+  });
+
+  it('should return an empty list for empty output', () => {
+    expect(parseMergeInfoRevisions('')).toEqual([]);
+  });
+});
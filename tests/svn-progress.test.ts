@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { parseNotificationLine, parseRevisionLine, executeSvnCommand } from '../common/utils';
+import { SvnProgress } from '../common/types';
+import { SvnService } from '../tools/svn-service';
+import { posixIt, makeTempDir, removeTempDir, writeFakeSvn } from './helpers/fake-svn';
+
+describe('Progress and cancellation', () => {
+  let dir: string;
+  let fakeSvn: string;
+
+  beforeAll(() => {
+    dir = makeTempDir('svn-progress-');
+    // update prints one item every 50ms and never finishes on its own; status reports a locked working copy
+    fakeSvn = writeFakeSvn(dir, `
+if (args[0] === 'status') {
+  process.stdout.write('<?xml version="1.0"?><status><target path="."><entry path="."><wc-status item="normal" props="none" wc-locked="true" revision="4"></wc-status></entry></target></status>');
+  process.exit(0);
+}
+process.stdout.write("Updating '.':\\n");
+let index = 0;
+setInterval(() => process.stdout.write('U    src/file' + (index++) + '.ts\\n'), 50);
+`);
+  });
+
+  afterAll(() => {
+    removeTempDir(dir);
+  });
+
+  it('should recognise update and commit notification lines', () => {
+    expect(parseNotificationLine('A    trunk/src/app.ts')).toEqual({ action: 'A', path: 'trunk/src/app.ts' });
+    expect(parseNotificationLine(' U   docs')).toEqual({ action: 'U', path: 'docs' });
+    expect(parseNotificationLine('Sending        src/app.ts')).toEqual({ action: 'Sending', path: 'src/app.ts' });
+    expect(parseNotificationLine('Adding  (bin)  logo.png')).toEqual({ action: 'Adding', path: 'logo.png' });
+    expect(parseNotificationLine("Updating '.':")).toBeNull();
+    expect(parseNotificationLine('  Text conflicts: 1')).toBeNull();
+    expect(parseRevisionLine('Committed revision 42.')).toBe(42);
+    expect(parseRevisionLine('Updated to revision 7.')).toBe(7);
+  });
+
+  posixIt('should stream lines and stop the process when cancelled', async () => {
+    const controller = new AbortController();
+    const lines: string[] = [];
+
+    const execution = executeSvnCommand({ svnPath: fakeSvn, workingDirectory: dir, timeout: 10000 }, ['update'], {
+      signal: controller.signal,
+      onLine: line => {
+        lines.push(line);
+        if (lines.length === 3) controller.abort();
+      }
+    });
+
+    await expect(execution).rejects.toMatchObject({ interrupted: 'cancelled' });
+    expect(lines[0]).toBe("Updating '.':");
+  });
+
+  posixIt('should report progress and the partial state of an interrupted update', async () => {
+    const controller = new AbortController();
+    const progress: SvnProgress[] = [];
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, timeout: 10000 });
+
+    const result = await svnService.update(undefined, {
+      signal: controller.signal,
+      onProgress: item => {
+        progress.push(item);
+        if (item.processed === 2) controller.abort();
+      }
+    });
+
+    expect(progress[0]).toEqual({ processed: 1, action: 'U', path: 'src/file0.ts' });
+    expect(result.success).toBe(false);
+    expect(result.interruption).toMatchObject({ reason: 'cancelled', workingCopyLocked: true });
+    expect(result.interruption!.processed).toBeGreaterThanOrEqual(2);
+    expect(result.interruption!.recent[0].path).toBe('src/file0.ts');
+    expect(result.data).toContain('U    src/file1.ts');
+  });
+
+  posixIt('should report a timeout as an interruption', async () => {
+    const svnService = new SvnService({ svnPath: fakeSvn, workingDirectory: dir, timeout: 200 });
+
+    const result = await svnService.update();
+
+    expect(result.interruption?.reason).toBe('timeout');
+    expect(result.error).toContain('Command timeout after 200ms');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { summarizeStatus, calculateDiskUsage, formatBytes } from '../common/utils';
+import { SvnStatus } from '../common/types';
+
+describe('Working copy summary', () => {
+  it('should group status entries', () => {
+    const status: SvnStatus[] = [
+      { path: 'src/app.ts', status: 'modified' },
+      { path: 'src/conflict.ts', status: 'conflicted' },
+      { path: 'src/tree.ts', status: 'missing', treeConflicted: true },
+      { path: 'docs', status: 'normal', propStatus: 'modified' },
+      { path: 'src/new.ts', status: 'added' },
+      { path: 'src/old.ts', status: 'deleted' },
+      { path: 'notes.txt', status: 'unversioned' }
+    ];
+
+    expect(summarizeStatus(status)).toEqual({
+      conflictedFiles: ['src/conflict.ts', 'src/tree.ts'],
+      modifiedFiles: ['src/app.ts', 'docs'],
+      addedFiles: ['src/new.ts'],
+      deletedFiles: ['src/old.ts'],
+      unversionedFiles: ['notes.txt']
+    });
+  });
+
+  it('should measure disk usage without .svn metadata', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'svn-summary-'));
+    try {
+      fs.mkdirSync(path.join(root, '.svn'));
+      fs.mkdirSync(path.join(root, 'src'));
+      fs.writeFileSync(path.join(root, '.svn', 'wc.db'), 'x'.repeat(1000));
+      fs.writeFileSync(path.join(root, 'README'), 'x'.repeat(10));
+      fs.writeFileSync(path.join(root, 'src', 'app.ts'), 'x'.repeat(25));
+
+      expect(await calculateDiskUsage(root)).toBe(35);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('should format sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
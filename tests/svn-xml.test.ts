@@ -0,0 +1,206 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseXml, xmlChild, xmlChildren, xmlDescendants } from '../common/xml';
+import { parseInfoOutput, parseStatusOutput, parsePropListOutput } from '../common/utils';
+import { SvnError } from '../common/types';
+
+describe('XML parser', () => {
+  it('should parse nested elements, multi-line attributes and entities', () => {
+    const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<!-- comment -->
+<list
+   path="a &amp; b">
+<entry kind='dir' note="1 &gt; 0"><name>caf&#233; &#x41;</name></entry>
+<empty/>
+</list>`);
+
+    expect(root.name).toBe('list');
+    expect(root.attributes.path).toBe('a & b');
+    const entry = xmlChild(root, 'entry')!;
+    expect(entry.attributes).toEqual({ kind: 'dir', note: '1 > 0' });
+    expect(xmlChild(entry, 'name')!.text).toBe('café A');
+    expect(xmlChildren(root, 'empty')).toHaveLength(1);
+  });
+
+  it('should keep text content untouched, including CDATA', () => {
+    const root = parseXml('<msg>  line one\n<![CDATA[<raw> & text]]>\n</msg>');
+
+    expect(root.text).toBe('  line one\n<raw> & text\n');
+  });
+
+  it('should find descendants in document order', () => {
+    const root = parseXml('<a><entry id="1"><entry id="2"/></entry><b><entry id="3"/></b></a>');
+
+    expect(xmlDescendants(root, 'entry').map(entry => entry.attributes.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(SvnError);
+    expect(() => parseXml('<a>')).toThrow(SvnError);
+    expect(() => parseXml('')).toThrow(SvnError);
+  });
+});
+
+describe('svn info --xml parsing', () => {
+  it('should not depend on the client language', () => {
+    const info = parseInfoOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry
+   kind="dir"
+   path="."
+   revision="120">
+<url>https://svn.example.com/repo/trunk</url>
+<relative-url>^/trunk</relative-url>
+<repository>
+<root>https://svn.example.com/repo</root>
+<uuid>0b1c2d3e-aaaa-bbbb-cccc-1234567890ab</uuid>
+</repository>
+<wc-info>
+<wcroot-abspath>/home/dev/trunk</wcroot-abspath>
+<schedule>normal</schedule>
+<depth>infinity</depth>
+</wc-info>
+<commit
+   revision="118">
+<author>josé</author>
+<date>2024-06-01T08:00:00.000000Z</date>
+</commit>
+</entry>
+</info>`);
+
+    expect(info).toEqual({
+      path: '.',
+      workingCopyRootPath: '/home/dev/trunk',
+      url: 'https://svn.example.com/repo/trunk',
+      relativeUrl: '^/trunk',
+      repositoryRoot: 'https://svn.example.com/repo',
+      repositoryUuid: '0b1c2d3e-aaaa-bbbb-cccc-1234567890ab',
+      revision: 120,
+      nodeKind: 'directory',
+      schedule: 'normal',
+      lastChangedAuthor: 'josé',
+      lastChangedRev: 118,
+      lastChangedDate: '2024-06-01T08:00:00.000000Z',
+      textLastUpdated: undefined,
+      checksum: undefined
+    });
+  });
+});
+
+describe('svn status --xml parsing', () => {
+  it('should map wc-status items to status entries', () => {
+    const statusList = parseStatusOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path=".">
+<entry path="src/app.ts">
+<wc-status item="modified" props="none" revision="120">
+<commit revision="118"><author>alice</author><date>2024-06-01T08:00:00.000000Z</date></commit>
+</wc-status>
+</entry>
+<entry path="new file.ts">
+<wc-status item="unversioned" props="none"></wc-status>
+</entry>
+</target>
+</status>`);
+
+    expect(statusList).toEqual([
+      {
+        path: 'src/app.ts',
+        status: 'modified',
+        revision: 120,
+        changedRev: 118,
+        changedAuthor: 'alice',
+        changedDate: '2024-06-01T08:00:00.000000Z'
+      },
+      { path: 'new file.ts', status: 'unversioned' }
+    ]);
+  });
+
+  it('should report property, tree-conflict, switched, lock and out-of-date columns', () => {
+    const statusList = parseStatusOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path=".">
+<entry path="docs">
+<wc-status item="normal" props="modified" revision="120" switched="true"></wc-status>
+</entry>
+<entry path="design/logo.psd">
+<wc-status item="normal" props="none" revision="120" wc-locked="true">
+<lock>
+<token>opaquelocktoken:1234</token>
+<owner>alice</owner>
+<comment>editing colours</comment>
+<created>2024-06-02T09:00:00.000000Z</created>
+</lock>
+</wc-status>
+<repos-status item="none" props="none"></repos-status>
+</entry>
+<entry path="src/moved.ts">
+<wc-status item="added" props="none" copied="true" tree-conflicted="true"></wc-status>
+<repos-status item="modified" props="none">
+<lock>
+<token>opaquelocktoken:5678</token>
+<owner>bob</owner>
+<created>2024-06-03T09:00:00.000000Z</created>
+</lock>
+</repos-status>
+</entry>
+<against revision="130"/>
+</target>
+</status>`);
+
+    expect(statusList[0]).toMatchObject({ path: 'docs', status: 'normal', propStatus: 'modified', switched: true });
+    expect(statusList[1]).toMatchObject({
+      path: 'design/logo.psd',
+      workingCopyLocked: true,
+      outOfDate: false,
+      lock: { path: 'design/logo.psd', token: 'opaquelocktoken:1234', owner: 'alice', comment: 'editing colours' }
+    });
+    expect(statusList[2]).toMatchObject({
+      path: 'src/moved.ts',
+      status: 'added',
+      copied: true,
+      treeConflicted: true,
+      outOfDate: true,
+      remoteStatus: 'modified',
+      remoteLock: { owner: 'bob', token: 'opaquelocktoken:5678' }
+    });
+  });
+
+  it('should return an empty list for empty output', () => {
+    expect(parseStatusOutput('')).toEqual([]);
+  });
+});
+
+describe('svn proplist --xml parsing', () => {
+  it('should group properties by target', () => {
+    const lists = parsePropListOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<properties>
+<target path="src">
+<property name="svn:ignore">build
+dist
+</property>
+</target>
+<target path="src/app.ts">
+<property name="svn:eol-style">native</property>
+</target>
+</properties>`);
+
+    expect(lists).toEqual([
+      { path: 'src', properties: { 'svn:ignore': 'build\ndist\n' } },
+      { path: 'src/app.ts', properties: { 'svn:eol-style': 'native' } }
+    ]);
+  });
+
+  it('should map revision properties to the revision', () => {
+    const lists = parsePropListOutput(`<?xml version="1.0" encoding="UTF-8"?>
+<properties>
+<revprops rev="42">
+<property name="svn:log">Fix typo</property>
+<property name="svn:author">alice</property>
+</revprops>
+</properties>`);
+
+    expect(lists).toEqual([
+      { path: 'r42', properties: { 'svn:log': 'Fix typo', 'svn:author': 'alice' } }
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseWorkingCopyList, discoverWorkingCopies } from '../common/utils';
+import { WorkingCopyRegistry } from '../tools/working-copy-registry';
+
+describe('Working copy registry', () => {
+  let root: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'svn-wc-'));
+    for (const checkout of ['trunk', 'branches/release-1.0', 'branches/release-1.0/src', 'notes']) {
+      fs.mkdirSync(path.join(root, checkout), { recursive: true });
+    }
+    fs.mkdirSync(path.join(root, 'trunk', '.svn'));
+    fs.mkdirSync(path.join(root, 'branches', 'release-1.0', '.svn'));
+    fs.mkdirSync(path.join(root, 'branches', 'release-1.0', 'src', '.svn'));
+
+    delete process.env.SVN_WORKING_COPIES;
+    delete process.env.SVN_WORKING_COPIES_ROOT;
+    delete process.env.SVN_DEFAULT_WORKING_COPY;
+    process.env.SVN_WORKING_DIRECTORY = root;
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should parse name=path lists and JSON', () => {
+    expect(parseWorkingCopyList('trunk=/src/trunk; rel=C:\\src\\rel')).toEqual({ trunk: '/src/trunk', rel: 'C:\\src\\rel' });
+    expect(parseWorkingCopyList('{"trunk": "/src/trunk"}')).toEqual({ trunk: '/src/trunk' });
+    expect(parseWorkingCopyList(undefined)).toEqual({});
+    expect(() => parseWorkingCopyList('/src/trunk')).toThrow('expected name=path');
+  });
+
+  it('should only accept JSON objects of name/path strings', () => {
+    const errors: string[] = [];
+    const collect = (error: Error) => errors.push(error.message);
+
+    expect(parseWorkingCopyList('["/src/trunk"]', collect)).toEqual({});
+    expect(parseWorkingCopyList('[{"trunk": "/src/trunk"}]', collect)).toEqual({});
+    expect(parseWorkingCopyList('{"trunk": "/src/trunk", "rel": 2, "old": null}', collect)).toEqual({ trunk: '/src/trunk' });
+    expect(errors).toEqual([
+      'Invalid SVN_WORKING_COPIES JSON: expected an object of name/path pairs',
+      'Invalid SVN_WORKING_COPIES JSON: expected an object of name/path pairs',
+      "Invalid SVN_WORKING_COPIES entry 'rel', expected a path",
+      "Invalid SVN_WORKING_COPIES entry 'old', expected a path"
+    ]);
+    expect(() => parseWorkingCopyList('{"trunk": ["/src/trunk"]}')).toThrow("Invalid SVN_WORKING_COPIES entry 'trunk'");
+  });
+
+  it('should keep the default working copy when the list names one', () => {
+    expect(() => parseWorkingCopyList('default=/src/other')).toThrow("cannot redefine 'default'");
+
+    process.env.SVN_WORKING_COPIES = `default=${path.join(root, 'trunk')};main=${path.join(root, 'trunk')}`;
+    const registry = new WorkingCopyRegistry();
+    expect(registry.select('default').path).toBe(path.resolve(root));
+    expect(registry.select('main').path).toBe(path.resolve(root, 'trunk'));
+  });
+
+  it('should discover checkouts without descending into them', () => {
+    expect(discoverWorkingCopies(root).map(wc => wc.name)).toEqual(['branches/release-1.0', 'trunk']);
+  });
+
+  it('should register configured and discovered working copies', () => {
+    process.env.SVN_WORKING_COPIES = `main=${path.join(root, 'trunk')}`;
+    process.env.SVN_WORKING_COPIES_ROOT = root;
+    const registry = new WorkingCopyRegistry();
+
+    // The constructor already discovered the branch, and trunk is registered as "main"
+    expect(registry.discover(root)).toEqual([]);
+    expect(registry.getService('main')).toBe(registry.getService('main'));
+    expect(registry.getService()).toBe(registry.getService('default'));
+    expect(registry.getService('branches/release-1.0')).not.toBe(registry.getService('main'));
+  });
+
+  it('should select working copies and reject unknown names', () => {
+    process.env.SVN_WORKING_COPIES = `main=${path.join(root, 'trunk')}`;
+    const registry = new WorkingCopyRegistry();
+
+    expect(registry.select('main')).toMatchObject({ name: 'main', active: true });
+    expect(registry.getService()).toBe(registry.getService('main'));
+    expect(() => registry.select('missing')).toThrow("Unknown working copy 'missing'");
+  });
+
+  it('should skip configured entries that are stale or malformed', () => {
+    process.env.SVN_WORKING_COPIES = `gone=${path.join(root, 'gone')};broken;main=${path.join(root, 'trunk')}`;
+    process.env.SVN_DEFAULT_WORKING_COPY = 'gone';
+    const registry = new WorkingCopyRegistry();
+
+    expect(registry.select('main')).toMatchObject({ name: 'main', active: true });
+    expect(() => registry.select('gone')).toThrow("Unknown working copy 'gone'");
+    expect(parseWorkingCopyList('broken;main=/src/trunk', () => undefined)).toEqual({ main: '/src/trunk' });
+  });
+
+  it('should reject added paths that do not exist', async () => {
+    const registry = new WorkingCopyRegistry();
+    await expect(registry.add('gone', path.join(root, 'gone'))).rejects.toThrow('Working copy path does not exist');
+  });
+});
@@ -10,11 +10,49 @@ import {
   SvnLogEntry,
   SvnCheckoutOptions,
   SvnUpdateOptions,
+  SvnProgress,
+  SvnProgressOptions,
   SvnCommitOptions,
   SvnAddOptions,
   SvnDeleteOptions,
+  SvnBlame,
+  SvnBlameOptions,
+  SvnBranch,
+  SvnCopyOptions,
+  SvnMoveOptions,
+  SvnImportOptions,
+  SvnExportOptions,
+  SvnBatchOperation,
+  SvnBatchOptions,
+  SvnBatchResult,
+  SvnBatchSummary,
+  SvnWorkingCopySummary,
+  SvnBranchComparison,
+  SvnBranchOrigin,
+  SvnHealthCheck,
+  SvnListEntry,
+  SvnListOptions,
+  SvnCatOptions,
+  SvnCatResult,
+  SvnRepositoryLayout,
+  SvnMergeOptions,
+  SvnMergeResult,
+  SvnMergeInfo,
+  SvnSwitchOptions,
+  SvnSwitchResult,
+  SvnResolveOptions,
+  SvnConflict,
+  SvnProperty,
+  SvnPropertyList,
+  SvnPropertyOptions,
+  SvnLock,
+  SvnLockEntry,
+  SvnLockOptions,
+  SvnUnlockOptions,
   SvnError
 } from '../common/types.js';
+import { logger } from '../common/logger.js';
+import { findProtectedPattern } from '../common/policy.js';
 
 import {
   createSvnConfig,
@@ -22,12 +60,39 @@ import {
   parseInfoOutput,
   parseStatusOutput,
   parseLogOutput,
+  parseBlameOutput,
+  parseListOutput,
+  resolveRepositoryLayout,
+  parseMergeOutput,
+  parseMergeInfoRevisions,
+  parseConflictStatus,
+  parseConflictInfo,
+  parsePropListOutput,
+  parseLockInfo,
+  collectLocks,
+  validateBatchOperations,
+  summarizeStatus,
+  calculateDiskUsage,
+  formatRevisionList,
+  parseDiffSummary,
+  findBranchOrigin,
+  findCommonAncestor,
+  analyzeWorkingCopyHealth,
+  healthIssueFromError,
+  isLocalChange,
+  revisionRange,
+  isBinaryMimeType,
+  truncateToBytes,
   validateSvnInstallation,
   isWorkingCopy,
-  normalizePath,
+  resolveWorkingCopyPath,
+  findWorkingCopyRoot,
+  findPathCandidates,
   validatePath,
   validateSvnUrl,
   cleanOutput,
+  parseNotificationLine,
+  parseRevisionLine,
   formatDuration,
   clearSvnCredentials
 } from '../common/utils.js';
@@ -42,21 +107,13 @@ export class SvnService {
   }
 
   /**
-   * Log data to C:\Logs\mcp-svn.log
+   * Root of the working copy this service works on (looked up once, then cached)
    */
-  private logToFile(message: string): void {
-    const logDir = 'C:\\Logs';
-    const logFile = path.join(logDir, 'mcp_svn.log');
-    try {
-      if (!fs.existsSync(logDir)) {
-        fs.mkdirSync(logDir, { recursive: true });
-      }
-      const timestamp = new Date().toISOString();
-      fs.appendFileSync(logFile, `[${timestamp}] ${message}${os.EOL}`);
-    } catch (err) {
-      // For debugging: print error to stderr
-      console.error('Failed to write to log file:', err);
+  async getWorkingCopyRoot(): Promise<string> {
+    if (!this.workingCopyRoot) {
+      this.workingCopyRoot = (await this.getInfo()).data!.workingCopyRootPath;
     }
+    return this.workingCopyRoot;
   }
 
 
@@ -76,97 +133,270 @@ export class SvnService {
       message = `The working copy is locked. Run 'svn cleanup' to resolve it.`;
     } else if (error.message.includes('E200030') || error.message.includes('sqlite')) {
       message = `Working copy database error. Run 'svn cleanup' to repair it.`;
+    } else if (error.message.includes('E155015') || error.stderr?.includes('E155015') || error.stderr?.includes('remains in conflict')) {
+      message = `${message}: the working copy has unresolved conflicts. Inspect them with svn_conflicts and resolve them with svn_resolve.`;
+    } else if (error.stderr?.includes('W160035') || error.stderr?.includes('E160035') || error.stderr?.includes('is already locked')) {
+      message = `${message}: the path is locked by another user. Check the owner with svn_locks, or steal the lock with svn_lock if you are sure.`;
+    } else if (error.stderr?.includes('W160040') || error.stderr?.includes('E160040') || error.stderr?.includes('No lock on path')) {
+      message = `${message}: the path is not locked, or the lock was broken or stolen. Check it with svn_locks.`;
     } else if (error.stderr && error.stderr.length > 0) {
       message = `${message}: ${error.stderr}`;
     } else {
       message = `${message}: ${error.message}`;
     }
 
-    this.logToFile(`Error during ${operation}: ${message}`);
+    logger.warning(`Error during ${operation}: ${message}`, { workingCopy: this.config.workingDirectory });
     throw new SvnError(message);
   }
 
+  /**
+   * Resolve a URL or working copy path into a command target
+   */
+  private async resolveTarget(target: string): Promise<string> {
+    if (validateSvnUrl(target)) {
+      return target;
+    }
+    return this.resolvePath(target);
+  }
+
+  /**
+   * Resolve a working copy path exactly, relative to the working directory.
+   * A path that is not on disk is accepted only when the caller creates it
+   * (allowMissing) or when svn still tracks it as deleted or missing; anything
+   * else fails with suggestions rather than a guess.
+   */
+  private async resolvePath(filePath: string, options: { mustExist?: boolean; allowMissing?: boolean } = {}): Promise<string> {
+    if (!validatePath(filePath)) {
+      throw new SvnError(`Invalid path: ${filePath}`);
+    }
+
+    const workingDirectory = `${this.config.workingDirectory}`;
+    const root = findWorkingCopyRoot(workingDirectory) || workingDirectory;
+    const resolved = resolveWorkingCopyPath(workingDirectory, filePath, root);
+
+    if (resolved.exists) {
+      return resolved.path;
+    }
+    if (!options.mustExist && fs.existsSync(path.dirname(resolved.path))) {
+      if (options.allowMissing || await this.isTrackedButMissing(resolved.path)) {
+        return resolved.path;
+      }
+    }
+
+    const candidates = findPathCandidates(root, filePath);
+    const suggestion = candidates.length > 0 ? `. Did you mean: ${candidates.join(', ')}?` : '';
+    throw new SvnError(`Path not found in the working copy: ${filePath}${suggestion}`);
+  }
+
+  /**
+   * Whether svn still knows a path that is gone from disk (scheduled for deletion or missing)
+   */
+  private async isTrackedButMissing(target: string): Promise<boolean> {
+    try {
+      const response = await executeSvnCommand(this.config, ['status', '--xml', '--depth', 'empty', target]);
+      return parseStatusOutput(cleanOutput(response.data as string))
+        .some(status => status.status === 'deleted' || status.status === 'missing');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a copy/move destination, which usually does not exist yet.
+   * Local destinations must stay inside the working copy root
+   */
+  private resolveDestination(destination: string): string {
+    if (validateSvnUrl(destination)) {
+      return destination;
+    }
+    if (!validatePath(destination)) {
+      throw new SvnError(`Invalid path or URL: ${destination}`);
+    }
+
+    const workingDirectory = `${this.config.workingDirectory}`;
+    const root = findWorkingCopyRoot(workingDirectory) || workingDirectory;
+    return resolveWorkingCopyPath(workingDirectory, destination, root).path;
+  }
+
+  /**
+   * Refuse to change anything matched by SVN_PROTECTED_PATHS. Targets may be
+   * working copy paths, URLs or ^/ paths; each one is checked as a path
+   * relative to the repository root.
+   */
+  private async checkProtectedPaths(targets: string[]): Promise<void> {
+    const patterns = this.config.protectedPaths || [];
+    if (patterns.length === 0) {
+      return;
+    }
+
+    let info: SvnInfo | undefined;
+    const workingCopyInfo = async () => {
+      if (!info) {
+        info = (await this.getInfo()).data!;
+      }
+      return info;
+    };
+    const decode = (value: string) => {
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    };
+
+    for (const target of targets) {
+      let repositoryPath: string;
+      if (target.startsWith('^/')) {
+        repositoryPath = target.substring(2);
+      } else if (validateSvnUrl(target)) {
+        const root = await this.repositoryRootOf(target, await workingCopyInfo().catch(() => undefined));
+        repositoryPath = target.substring(root.length);
+      } else {
+        const workingDirectory = `${this.config.workingDirectory}`;
+        const relative = path.relative(workingDirectory, path.resolve(workingDirectory, target)).split(path.sep).join('/');
+        const base = (await workingCopyInfo()).relativeUrl.replace(/^\^/, '');
+        repositoryPath = path.posix.normalize(`/${base}/${relative}`);
+      }
+
+      const pattern = findProtectedPattern(decode(repositoryPath).replace(/^\/+|\/+$/g, ''), patterns);
+      if (pattern) {
+        throw new SvnError(`Path is protected by the server policy (${pattern}): ${target}`);
+      }
+    }
+  }
+
+  /**
+   * Repository root of a URL: the working copy's when the URL belongs to it,
+   * otherwise asked to the server for the URL or its nearest existing parent
+   */
+  private async repositoryRootOf(url: string, info?: SvnInfo): Promise<string> {
+    if (info && (url === info.repositoryRoot || url.startsWith(`${info.repositoryRoot}/`))) {
+      return info.repositoryRoot;
+    }
+
+    for (let candidate = url.replace(/\/+$/, ''); validateSvnUrl(candidate); candidate = candidate.replace(/\/[^/]*$/, '')) {
+      try {
+        const response = await executeSvnCommand(this.config, ['info', '--show-item', 'repos-root-url', candidate]);
+        const root = (response.data as string).trim();
+        if (root) {
+          return root;
+        }
+      } catch {
+        // Not there yet (e.g. the destination of a copy): try the parent
+      }
+    }
+
+    throw new SvnError(`Cannot check ${url} against the protected paths: repository root not found`);
+  }
+
   /**
    * Check that SVN is available and properly configured
    */
-  async healthCheck(): Promise<SvnResponse<{
-    svnAvailable: boolean;
-    version?: string;
-    workingCopyValid?: boolean;
-    repositoryAccessible?: boolean;
-  }>> {
+  async healthCheck(): Promise<SvnResponse<SvnHealthCheck>> {
+    const startTime = Date.now();
+    const health: SvnHealthCheck = {
+      status: 'healthy',
+      issues: [],
+      svnAvailable: false,
+      workingCopyValid: false,
+      repositoryAccessible: false,
+      conflictsDetected: false,
+      uncommittedChanges: false,
+      lastUpdate: ''
+    };
+
+    const finish = (command: string, success: boolean = true): SvnResponse<SvnHealthCheck> => {
+      const priority = { error: 0, warning: 1, info: 2 };
+      health.issues.sort((a, b) => priority[a.type] - priority[b.type]);
+      health.status = health.issues.some(issue => issue.type === 'error')
+        ? 'error'
+        : health.issues.some(issue => issue.type === 'warning') ? 'warning' : 'healthy';
+      return {
+        success,
+        data: health,
+        error: success ? undefined : health.issues[0]?.message,
+        command,
+        workingDirectory: this.config.workingDirectory!,
+        executionTime: Date.now() - startTime
+      };
+    };
+
     try {
       // Verificar instalación de SVN
-      const svnAvailable = await validateSvnInstallation(this.config);
-      if (!svnAvailable) {
-        return {
-          success: false,
-          error: 'SVN is not available in the system PATH',
-          command: 'svn --version',
-          workingDirectory: this.config.workingDirectory!
-        };
+      health.svnAvailable = await validateSvnInstallation(this.config);
+      if (!health.svnAvailable) {
+        health.issues.push({
+          type: 'error',
+          message: 'SVN is not available in the system PATH',
+          suggestion: 'Install Subversion or set SVN_PATH to the svn executable, then check it with svn_diagnose'
+        });
+        return finish('svn --version', false);
       }
 
       // Obtener versión de SVN
       const versionResponse = await executeSvnCommand(this.config, ['--version', '--quiet']);
-      const version = versionResponse.data as string;
+      health.version = (versionResponse.data as string).trim();
 
-      // Verificar si estamos en un working copy
-      const workingCopyValid = await isWorkingCopy(this.config.workingDirectory!);
+      // Working copy: info local (detecta formato incompatible, bloqueos, etc.)
+      let info: SvnInfo;
+      try {
+        const infoResponse = await executeSvnCommand(this.config, ['info', '--xml']);
+        info = parseInfoOutput(cleanOutput(infoResponse.data as string));
+        health.workingCopyValid = true;
+        health.lastUpdate = info.textLastUpdated || info.lastChangedDate;
+      } catch (error: any) {
+        health.issues.push(healthIssueFromError(error));
+        return finish('health-check');
+      }
 
-      let repositoryAccessible = false;
-      if (workingCopyValid) {
-        try {
-          await this.getInfo();
-          repositoryAccessible = true;
-        } catch (error) {
-          repositoryAccessible = false;
-        }
+      let statusList: SvnStatus[] = [];
+      try {
+        const statusResponse = await executeSvnCommand(this.config, ['status', '--verbose', '--xml']);
+        statusList = parseStatusOutput(cleanOutput(statusResponse.data as string));
+      } catch (error: any) {
+        health.issues.push(healthIssueFromError(error));
       }
 
-      return {
-        success: true,
-        data: {
-          svnAvailable,
-          version: version.trim(),
-          workingCopyValid,
-          repositoryAccessible
-        },
-        command: 'health-check',
-        workingDirectory: this.config.workingDirectory!
-      };
+      // Revisión del último cambio en la rama (HEAD) para detectar un working copy desactualizado
+      let headRevision: number | undefined;
+      try {
+        const headResponse = await executeSvnCommand(this.config, ['info', '--xml', '--revision', 'HEAD', info.url]);
+        headRevision = parseInfoOutput(cleanOutput(headResponse.data as string)).lastChangedRev;
+        health.repositoryAccessible = true;
+        health.headRevision = headRevision;
+      } catch (error: any) {
+        health.issues.push(healthIssueFromError(error));
+      }
+
+      // Los externals de directorio son working copies propios: sin .svn no se obtuvieron
+      const brokenExternals = statusList
+        .filter(status => status.status === 'external' && !status.fileExternal)
+        .map(status => status.path)
+        .filter(external => !fs.existsSync(path.join(path.resolve(`${this.config.workingDirectory}`, external), '.svn')));
+
+      health.issues.push(...analyzeWorkingCopyHealth(statusList, { headRevision, brokenExternals }));
+
+      Object.assign(health, revisionRange(statusList));
+      health.conflictsDetected = summarizeStatus(statusList).conflictedFiles.length > 0;
+      health.uncommittedChanges = statusList.some(isLocalChange);
+
+      return finish('health-check');
 
     } catch (error: any) {
-      return {
-        success: false,
-        error: error.message,
-        command: 'health-check',
-        workingDirectory: this.config.workingDirectory!
-      };
+      health.issues.push(healthIssueFromError(error));
+      return finish('health-check', false);
     }
   }
 
+
   /**
    * Get information about the working copy or a specific directory
    */
   async getInfo(path?: string): Promise<SvnResponse<SvnInfo>> {
     try {
-      const args = ['info'];
+      const args = ['info', '--xml'];
       if (path) {
-        // Check if it's a URL or a local path
-        if (validateSvnUrl(path)) {
-          // It's a URL, add it directly without normalization
-          args.push(path);
-        } else if (validatePath(path)) {
-          // It's a local path, normalize it
-          const normalized = normalizePath(`${this.config.workingDirectory}`, path);
-          if (!normalized) {
-            this.logToFile(`Could not resolve path: ${path}`);
-          }
-          args.push(`${normalized}`);
-        } else {
-          this.logToFile(`Invalid path or URL: ${path}`);
-        }
+        args.push(await this.resolveTarget(path));
       }
       const response = await executeSvnCommand(this.config, args);
       const info = parseInfoOutput(cleanOutput(response.data as string));
@@ -187,17 +417,10 @@ export class SvnService {
    */
   async getStatus(path?: string, showAll: boolean = false): Promise<SvnResponse<SvnStatus[]>> {
     try {
-      const args = ['status'];
+      const args = ['status', '--xml'];
 
       if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+        args.push(await this.resolvePath(path));
       }
 
       let response;
@@ -206,7 +429,7 @@ export class SvnService {
           const argsWithUpdates = [...args, '--show-updates'];
           response = await executeSvnCommand(this.config, argsWithUpdates);
         } catch (error: any) {
-          console.warn(`Warning: --show-updates failed, falling back to local status only: ${error.message}`);
+          logger.warning(`--show-updates failed, falling back to local status only: ${error.message}`, { workingCopy: this.config.workingDirectory });
           response = await executeSvnCommand(this.config, args);
         }
       } else {
@@ -231,10 +454,16 @@ export class SvnService {
   async getLog(
     path?: string,
     limit?: number,
-    revision?: string
+    revision?: string,
+    includeChangedPaths: boolean = false
   ): Promise<SvnResponse<SvnLogEntry[]>> {
     try {
-      const args = ['log'];
+      // XML output keeps multi-line messages (and messages containing '|' or dash lines) intact
+      const args = ['log', '--xml'];
+
+      if (includeChangedPaths) {
+        args.push('--verbose');
+      }
 
       if (limit && limit > 0) {
         args.push('--limit', limit.toString());
@@ -245,19 +474,9 @@ export class SvnService {
       }
 
       if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+        args.push(await this.resolvePath(path));
       }
 
-      this.logToFile(`Executing SVN log with args: ${args.join(' ')}`);
-
       let response;
       try {
         response = await executeSvnCommand(this.config, args);
@@ -278,7 +497,7 @@ export class SvnService {
           error.message.includes('Connection refused') ||
           error.message.includes('Network is unreachable') ||
           error.code === 1) {
-          console.warn(`Log remoto falló, posible problema de conectividad: ${error.message}`);
+          logger.warning(`Remote log failed, possibly a connectivity problem: ${error.message}`, { workingCopy: this.config.workingDirectory });
           const enhancedError = new SvnError(
             `Could not retrieve change history. Possible causes:
             - No connectivity to the SVN server
@@ -306,6 +525,34 @@ export class SvnService {
     }
   }
 
+  /**
+   * Log entries of a set of revisions of one target (e.g. those a blame shows), in a single svn log call
+   */
+  async getLogEntries(
+    target: string,
+    revisions: number[],
+    pegRevision?: number | string
+  ): Promise<SvnResponse<SvnLogEntry[]>> {
+    try {
+      let logTarget = await this.resolveTarget(target);
+      if (pegRevision) {
+        logTarget = `${logTarget}@${pegRevision}`;
+      }
+
+      const response = await executeSvnCommand(this.config, ['log', '--xml', '--change', revisions.join(','), logTarget]);
+
+      return {
+        success: true,
+        data: parseLogOutput(cleanOutput(response.data as string)),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'get SVN log');
+    }
+  }
+
   /**
    * Get differences between versions
    */
@@ -318,32 +565,16 @@ export class SvnService {
       const args = ['diff'];
 
       if (oldRevision && newRevision && path) {
-
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push('--old', `${normalizedPath || '.'}@${oldRevision}`);
-        args.push('--new', `${normalizedPath || '.'}@${newRevision}`);
+        const resolvedPath = await this.resolvePath(path);
+        args.push('--old', `${resolvedPath}@${oldRevision}`);
+        args.push('--new', `${resolvedPath}@${newRevision}`);
       } else if (oldRevision) {
         args.push('--revision', oldRevision);
         if (path) {
-
-          const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-          if (!normalizedPath) {
-            throw new SvnError(`Could not resolve path: ${path}`);
-          }
-          args.push(normalizedPath);
+          args.push(await this.resolvePath(path));
         }
       } else if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+        args.push(await this.resolvePath(path));
       }
 
       const response = await executeSvnCommand(this.config, args);
@@ -362,203 +593,1189 @@ export class SvnService {
   }
 
   /**
-   * Checkout a repository
+   * Annotate each line of a file with the revision and author that last changed it
    */
-  async checkout(
-    url: string,
-    path?: string,
-    options: SvnCheckoutOptions = {}
-  ): Promise<SvnResponse<string>> {
+  async blame(
+    path: string,
+    options: SvnBlameOptions = {}
+  ): Promise<SvnResponse<SvnBlame>> {
     try {
-      if (!validateSvnUrl(url)) {
-        throw new SvnError(`Invalid SVN URL: ${url}`);
-      }
+      let target = await this.resolveTarget(path);
 
-      const args = ['checkout'];
-
-      if (options.revision) {
-        args.push('--revision', options.revision.toString());
-      }
-
-      if (options.depth) {
-        args.push('--depth', options.depth);
+      if (options.startLine && options.endLine && options.startLine > options.endLine) {
+        throw new SvnError(`Invalid line range: ${options.startLine}-${options.endLine}`);
       }
 
-      if (options.force) {
-        args.push('--force');
+      const isUrl = validateSvnUrl(target);
+      if (isUrl && typeof options.revision === 'string' && options.revision !== 'HEAD') {
+        throw new SvnError(`${options.revision} only applies to working copy paths, not URLs`);
       }
 
-      if (options.ignoreExternals) {
-        args.push('--ignore-externals');
+      // Peg revision so that renamed files are looked up at the requested revision
+      if (options.revision) {
+        target = `${target}@${options.revision}`;
       }
 
-      args.push(url);
-
-      if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+      const response = await executeSvnCommand(this.config, ['blame', '--xml', target]);
+      // svn blame --xml carries no line content. Without a revision a working copy file is
+      // blamed with its local changes, so read it from disk; otherwise cat the same target
+      let content: string;
+      let contentTime = 0;
+      if (!isUrl && !options.revision) {
+        content = fs.readFileSync(target, 'utf8');
+      } else {
+        const catResponse = await executeSvnCommand(this.config, ['cat', target], { raw: true });
+        content = catResponse.data as string;
+        contentTime = catResponse.executionTime || 0;
       }
 
-      const response = await executeSvnCommand(this.config, args);
+      const lines = parseBlameOutput(response.data as string, content).filter(line =>
+        (!options.startLine || line.lineNumber >= options.startLine) &&
+        (!options.endLine || line.lineNumber <= options.endLine)
+      );
 
       return {
         success: true,
-        data: cleanOutput(response.data as string),
+        data: { path, lines },
         command: response.command,
         workingDirectory: response.workingDirectory,
-        executionTime: response.executionTime
+        executionTime: (response.executionTime || 0) + contentTime
       };
 
     } catch (error: any) {
-      throw new SvnError(`Failed to checkout: ${error.message}`);
+      this.handleSvnError(error, 'get SVN blame');
     }
   }
 
   /**
-   * Update working copy
+   * List repository contents (working copy path or URL, no checkout needed)
    */
-  async update(
-    path?: string,
-    options: SvnUpdateOptions = {}
-  ): Promise<SvnResponse<string>> {
+  async list(target?: string, options: SvnListOptions = {}): Promise<SvnResponse<SvnListEntry[]>> {
     try {
-      const args = ['update'];
-
-      if (options.revision) {
-        args.push('--revision', options.revision.toString());
-      }
-
-      if (options.force) {
-        args.push('--force');
-      }
-
-      if (options.ignoreExternals) {
-        args.push('--ignore-externals');
-      }
-
-      if (options.acceptConflicts) {
-        args.push('--accept', options.acceptConflicts);
-      }
+      let listTarget = target ? await this.resolveTarget(target) : '.';
 
-      if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+      // Peg revision so that paths renamed or deleted since are found at that revision
+      if (options.revision !== undefined) {
+        listTarget = `${listTarget}@${options.revision}`;
       }
 
-      const response = await executeSvnCommand(this.config, args);
+      const response = await executeSvnCommand(this.config, ['list', '--xml', '--depth', options.depth || 'immediates', listTarget]);
 
       return {
         success: true,
-        data: cleanOutput(response.data as string),
+        data: parseListOutput(cleanOutput(response.data as string)),
         command: response.command,
         workingDirectory: response.workingDirectory,
         executionTime: response.executionTime
       };
-
     } catch (error: any) {
-      throw new SvnError(`Failed to update: ${error.message}`);
+      this.handleSvnError(error, 'list repository contents');
     }
   }
 
   /**
-   * Add files to version control
+   * Read a file at any URL@peg revision. Binary files (by svn:mime-type or
+   * NUL bytes) are not returned, and text is cut at maxBytes
    */
-  async add(
-    paths: string | string[],
-    options: SvnAddOptions = {}
-  ): Promise<SvnResponse<string>> {
+  async cat(target: string, options: SvnCatOptions = {}): Promise<SvnResponse<SvnCatResult>> {
+    const startTime = Date.now();
     try {
-      const pathArray = Array.isArray(paths) ? paths : [paths];
-
-      // Validate all paths
-      for (const path of pathArray) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-      }
-
-      const args = ['add'];
-
-      if (options.force) {
-        args.push('--force');
-      }
-
-      if (options.noIgnore) {
-        args.push('--no-ignore');
+      let catTarget = await this.resolveTarget(target);
+      if (options.revision !== undefined) {
+        catTarget = `${catTarget}@${options.revision}`;
       }
 
-      if (options.autoProps) {
-        args.push('--auto-props');
-      }
+      // proplist instead of propget: propget fails when the property is not set
+      const propResponse = await executeSvnCommand(this.config, ['proplist', '--xml', '--verbose', catTarget]);
+      const mimeType = parsePropListOutput(cleanOutput(propResponse.data as string))[0]?.properties['svn:mime-type']?.trim();
 
-      if (options.noAutoProps) {
-        args.push('--no-auto-props');
-      }
+      const result: SvnCatResult = { path: target, content: '', size: 0, truncated: false, binary: isBinaryMimeType(mimeType), mimeType };
 
-      if (options.parents) {
-        args.push('--parents');
-      }
+      if (result.binary) {
+        const listResponse = await executeSvnCommand(this.config, ['list', '--xml', catTarget]);
+        result.size = parseListOutput(cleanOutput(listResponse.data as string))[0]?.size ?? 0;
+      } else {
+        const maxBytes = options.maxBytes ?? 100 * 1024;
+        // Read a few bytes past the limit so the cut can fall on a character boundary; svn is stopped there
+        const response = await executeSvnCommand(this.config, ['cat', catTarget], { raw: true, maxBytes: maxBytes + 4 });
+        const content = response.data as string;
 
-      // Add normalized paths
-      args.push(...pathArray.map(p => {
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, p);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${p}`);
+        if (content.includes('\u0000')) {
+          result.binary = true;
+        } else {
+          Object.assign(result, truncateToBytes(content, maxBytes));
         }
-        return normalizedPath;
-      }));
 
-      const response = await executeSvnCommand(this.config, args);
+        if (result.truncated || result.binary) {
+          const listResponse = await executeSvnCommand(this.config, ['list', '--xml', catTarget]);
+          result.size = parseListOutput(cleanOutput(listResponse.data as string))[0]?.size ?? 0;
+        } else {
+          result.size = Buffer.byteLength(content, 'utf8');
+        }
+      }
 
       return {
         success: true,
-        data: cleanOutput(response.data as string),
-        command: response.command,
-        workingDirectory: response.workingDirectory,
-        executionTime: response.executionTime
+        data: result,
+        command: propResponse.command,
+        workingDirectory: propResponse.workingDirectory,
+        executionTime: Date.now() - startTime
       };
-
     } catch (error: any) {
-      throw new SvnError(`Failed to add files: ${error.message}`);
+      this.handleSvnError(error, 'read file contents');
     }
   }
 
   /**
-   * Commit changes to the repository
+   * Discover the trunk/branches/tags layout of the project the working copy belongs to
    */
-  async commit(
-    options: SvnCommitOptions,
-    paths?: string[]
-  ): Promise<SvnResponse<string>> {
+  async getRepositoryLayout(): Promise<SvnResponse<SvnRepositoryLayout>> {
     try {
-      if (!options.message && !options.file) {
-        throw new SvnError('Commit message is required');
-      }
-
-      const args = ['commit'];
+      const infoResponse = await this.getInfo();
+      const info = infoResponse.data!;
 
-      if (options.message) {
-        args.push('--message', options.message);
+      if (!info.repositoryRoot) {
+        throw new SvnError('Could not determine the repository root from svn info');
       }
 
-      if (options.file) {
-        const normalizedFile = normalizePath(`${this.config.workingDirectory}`, options.file);
-        if (!normalizedFile) {
-          throw new SvnError(`Could not resolve path: ${options.file}`);
+      return {
+        success: true,
+        data: resolveRepositoryLayout(info),
+        command: infoResponse.command,
+        workingDirectory: infoResponse.workingDirectory,
+        executionTime: infoResponse.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'get repository layout');
+    }
+  }
+
+  /**
+   * List branches (or tags) with their last-changed metadata
+   */
+  async listBranches(kind: 'branches' | 'tags' = 'branches', includeTrunk: boolean = false): Promise<SvnResponse<SvnBranch[]>> {
+    try {
+      const layout = (await this.getRepositoryLayout()).data!;
+      const baseUrl = kind === 'tags' ? layout.tagsUrl : layout.branchesUrl;
+
+      const response = await executeSvnCommand(this.config, ['list', '--xml', baseUrl]);
+      const branches: SvnBranch[] = parseListOutput(response.data as string)
+        .filter(entry => entry.kind === 'directory')
+        .map(entry => ({
+          name: entry.name,
+          url: `${baseUrl}/${entry.name}`,
+          lastChangedRev: entry.lastChangedRev,
+          lastChangedAuthor: entry.lastChangedAuthor,
+          lastChangedDate: entry.lastChangedDate
+        }));
+
+      if (includeTrunk) {
+        const trunkInfo = await this.getInfo(layout.trunkUrl);
+        branches.unshift({
+          name: 'trunk',
+          url: layout.trunkUrl,
+          lastChangedRev: trunkInfo.data!.lastChangedRev,
+          lastChangedAuthor: trunkInfo.data!.lastChangedAuthor,
+          lastChangedDate: trunkInfo.data!.lastChangedDate
+        });
+      }
+
+      return {
+        success: true,
+        data: branches,
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, `list ${kind}`);
+    }
+  }
+
+  /**
+   * Create a branch from trunk (or another source) with a server-side copy
+   */
+  async createBranch(name: string, source?: string, options: SvnCopyOptions = {}): Promise<SvnResponse<string>> {
+    return this.createLayoutCopy('branches', name, source, options);
+  }
+
+  /**
+   * Create a tag from trunk (or another source) with a server-side copy
+   */
+  async createTag(name: string, source?: string, options: SvnCopyOptions = {}): Promise<SvnResponse<string>> {
+    return this.createLayoutCopy('tags', name, source, options);
+  }
+
+  /**
+   * Resolve a branch reference to a URL: a full URL, "^/path", "trunk",
+   * "branches/x", "tags/x" or a plain branch name
+   */
+  private resolveBranchUrl(layout: SvnRepositoryLayout, source?: string): string {
+    if (!source || source === 'trunk') {
+      return layout.trunkUrl;
+    }
+    if (validateSvnUrl(source)) {
+      return source;
+    }
+    if (source.startsWith('^/')) {
+      return `${layout.repositoryRoot}/${source.substring(2)}`;
+    }
+    if (/^(branches|tags)\//.test(source)) {
+      return `${layout.projectRoot}/${source}`;
+    }
+    return `${layout.branchesUrl}/${source}`;
+  }
+
+  /**
+   * Copy a source URL into branches/ or tags/ of the current project
+   */
+  private async createLayoutCopy(
+    kind: 'branches' | 'tags',
+    name: string,
+    source: string | undefined,
+    options: SvnCopyOptions
+  ): Promise<SvnResponse<string>> {
+    const label = kind === 'tags' ? 'tag' : 'branch';
+    try {
+      const trimmedName = name.trim().replace(/^\/+|\/+$/g, '');
+      if (!trimmedName || !validatePath(trimmedName) || trimmedName.split('/').includes('..')) {
+        throw new SvnError(`Invalid ${label} name: ${name}`);
+      }
+
+      const layout = (await this.getRepositoryLayout()).data!;
+      const baseUrl = kind === 'tags' ? layout.tagsUrl : layout.branchesUrl;
+      const targetUrl = `${baseUrl}/${trimmedName}`;
+      const sourceUrl = this.resolveBranchUrl(layout, source);
+      await this.checkProtectedPaths([targetUrl]);
+
+      const args = ['copy'];
+
+      if (options.revision) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.parents) {
+        args.push('--parents');
+      }
+
+      args.push('--message', options.message || `Create ${label} ${trimmedName} from ${sourceUrl}`);
+      args.push(sourceUrl, targetUrl);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: `${targetUrl}\n${cleanOutput(response.data as string)}`.trim(),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, `create ${label}`);
+    }
+  }
+
+  /**
+   * Merge changes from a branch into the working copy (sync, cherry-pick or reintegrate)
+   */
+  async merge(
+    source: string,
+    targetPath?: string,
+    options: SvnMergeOptions = {}
+  ): Promise<SvnResponse<SvnMergeResult>> {
+    try {
+      if (options.revisions?.length && options.revisionRange) {
+        throw new SvnError('Use either revisions (cherry-pick) or revisionRange, not both');
+      }
+      if (options.reintegrate && (options.revisions?.length || options.revisionRange)) {
+        throw new SvnError('A reintegrate merge cannot be limited to specific revisions');
+      }
+
+      const layout = (await this.getRepositoryLayout()).data!;
+      const sourceUrl = this.resolveBranchUrl(layout, source);
+
+      const args = ['merge'];
+
+      if (options.dryRun) {
+        args.push('--dry-run');
+      }
+
+      if (options.revisions?.length) {
+        args.push('--change', options.revisions.join(','));
+      } else if (options.revisionRange) {
+        args.push('--revision', options.revisionRange);
+      }
+
+      if (options.reintegrate) {
+        args.push('--reintegrate');
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.ignoreAncestry) {
+        args.push('--ignore-ancestry');
+      }
+
+      if (options.recordOnly) {
+        args.push('--record-only');
+      }
+
+      // Never let svn prompt for conflicts; postpone them unless a policy is given
+      args.push('--accept', options.acceptConflicts || 'postpone');
+
+      args.push(sourceUrl);
+
+      if (targetPath) {
+        args.push(await this.resolvePath(targetPath));
+      }
+
+      if (!options.dryRun) {
+        await this.checkProtectedPaths([targetPath || '']);
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: parseMergeOutput(cleanOutput(response.data as string), !!options.dryRun),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      this.handleSvnError(error, options.dryRun ? 'preview merge' : 'merge');
+    }
+  }
+
+  /**
+   * Get the revisions of a source branch already merged into, and still eligible for, a target
+   */
+  async getMergeInfo(source: string, target?: string): Promise<SvnResponse<SvnMergeInfo>> {
+    try {
+      const layout = (await this.getRepositoryLayout()).data!;
+      const sourceUrl = this.resolveBranchUrl(layout, source);
+
+      let targetArg: string | undefined;
+      if (target) {
+        if (validateSvnUrl(target) || target.startsWith('^/') || target === 'trunk' || /^(branches|tags)\//.test(target)) {
+          targetArg = this.resolveBranchUrl(layout, target);
+        } else {
+          targetArg = await this.resolvePath(target);
+        }
+      }
+
+      return await this.readMergeInfo(sourceUrl, targetArg);
+
+    } catch (error: any) {
+      this.handleSvnError(error, 'get SVN mergeinfo');
+    }
+  }
+
+  private async readMergeInfo(sourceUrl: string, target?: string): Promise<SvnResponse<SvnMergeInfo>> {
+    const baseArgs = ['mergeinfo', sourceUrl, ...(target ? [target] : [])];
+    const merged = await executeSvnCommand(this.config, [...baseArgs, '--show-revs', 'merged']);
+    const eligible = await executeSvnCommand(this.config, [...baseArgs, '--show-revs', 'eligible']);
+
+    return {
+      success: true,
+      data: {
+        sourcePath: sourceUrl,
+        mergedRevisions: parseMergeInfoRevisions(cleanOutput(merged.data as string)),
+        eligibleRevisions: parseMergeInfoRevisions(cleanOutput(eligible.data as string))
+      },
+      command: eligible.command,
+      workingDirectory: eligible.workingDirectory,
+      executionTime: (merged.executionTime || 0) + (eligible.executionTime || 0)
+    };
+  }
+
+  /**
+   * Compare two branches before a merge: revisions on the source not yet
+   * merged into the target, files changed on both sides since their common
+   * ancestor (likely conflicts) and an overall diff summary
+   */
+  async compareBranches(source: string, target: string = 'trunk'): Promise<SvnResponse<SvnBranchComparison>> {
+    const startTime = Date.now();
+    try {
+      let layout: SvnRepositoryLayout | undefined;
+      const resolve = async (branch: string) => {
+        if (validateSvnUrl(branch)) return branch.replace(/\/+$/, '');
+        layout = layout || (await this.getRepositoryLayout()).data!;
+        return this.resolveBranchUrl(layout, branch);
+      };
+      const sourceUrl = await resolve(source);
+      const targetUrl = await resolve(target);
+
+      const repositoryRoot = (await this.getInfo(sourceUrl)).data!.repositoryRoot.replace(/\/+$/, '');
+      const repositoryPath = (url: string) => decodeURIComponent(url.substring(repositoryRoot.length)) || '/';
+
+      const mergeInfo = (await this.readMergeInfo(sourceUrl, targetUrl)).data!;
+
+      let differences: SvnLogEntry[] = [];
+      if (mergeInfo.eligibleRevisions.length > 0) {
+        const logResponse = await executeSvnCommand(this.config, [
+          'log', '--xml', '--verbose', '--change', formatRevisionList(mergeInfo.eligibleRevisions), sourceUrl
+        ]);
+        differences = parseLogOutput(cleanOutput(logResponse.data as string));
+      }
+
+      const commonAncestor = findCommonAncestor(
+        { path: repositoryPath(sourceUrl), origin: await this.findBranchOrigin(sourceUrl, repositoryPath(sourceUrl)) },
+        { path: repositoryPath(targetUrl), origin: await this.findBranchOrigin(targetUrl, repositoryPath(targetUrl)) }
+      );
+
+      let conflictingFiles: string[] = [];
+      if (commonAncestor) {
+        const ancestorUrl = `${repositoryRoot}${encodeURI(commonAncestor.path)}`;
+        const changedSince = async (branchUrl: string) => {
+          const response = await executeSvnCommand(this.config, [
+            'diff', '--summarize', '--xml', `${ancestorUrl}@${commonAncestor.revision}`, branchUrl
+          ]);
+          return parseDiffSummary(cleanOutput(response.data as string), ancestorUrl, branchUrl)
+            .filter(entry => entry.kind === 'file');
+        };
+        const targetChanges = new Set((await changedSince(targetUrl)).map(entry => entry.path));
+        conflictingFiles = (await changedSince(sourceUrl))
+          .map(entry => entry.path)
+          .filter(changedPath => targetChanges.has(changedPath));
+      }
+
+      const diffResponse = await executeSvnCommand(this.config, ['diff', '--summarize', '--xml', targetUrl, sourceUrl]);
+      const diffSummary = parseDiffSummary(cleanOutput(diffResponse.data as string), targetUrl, sourceUrl);
+
+      return {
+        success: true,
+        data: {
+          sourceBranch: sourceUrl,
+          targetBranch: targetUrl,
+          differences,
+          mergeInfo,
+          conflictingFiles,
+          commonAncestor,
+          diffSummary
+        },
+        command: diffResponse.command,
+        workingDirectory: diffResponse.workingDirectory,
+        executionTime: Date.now() - startTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'compare branches');
+    }
+  }
+
+  /**
+   * Where a branch was copied from, read from its oldest revision with --stop-on-copy
+   */
+  private async findBranchOrigin(branchUrl: string, branchPath: string): Promise<SvnBranchOrigin | undefined> {
+    const response = await executeSvnCommand(this.config, [
+      'log', '--xml', '--verbose', '--stop-on-copy', '--revision', '1:HEAD', '--limit', '1', branchUrl
+    ]);
+    return findBranchOrigin(parseLogOutput(cleanOutput(response.data as string)), branchPath);
+  }
+
+  /**
+   * Switch the working copy (or a subtree) to another branch URL
+   */
+  async switch(
+    target: string,
+    path?: string,
+    options: SvnSwitchOptions = {}
+  ): Promise<SvnResponse<SvnSwitchResult>> {
+    try {
+      const layout = (await this.getRepositoryLayout()).data!;
+      const targetUrl = this.resolveBranchUrl(layout, target);
+      if (!validateSvnUrl(targetUrl)) {
+        throw new SvnError(`Invalid SVN URL: ${targetUrl}`);
+      }
+
+      const args = ['switch'];
+
+      if (options.revision) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.ignoreExternals) {
+        args.push('--ignore-externals');
+      }
+
+      args.push('--accept', options.acceptConflicts || 'postpone');
+      args.push(targetUrl);
+
+      if (path) {
+        args.push(await this.resolvePath(path));
+      }
+
+      const before = await this.getInfo(path);
+      const response = await executeSvnCommand(this.config, args);
+      const after = await this.getInfo(path);
+
+      return {
+        success: true,
+        data: {
+          previousUrl: before.data!.url,
+          currentUrl: after.data!.url,
+          revision: after.data!.revision,
+          output: cleanOutput(response.data as string)
+        },
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      this.handleSvnError(error, 'switch working copy');
+    }
+  }
+
+  /**
+   * Rewrite the repository root URL of the working copy (e.g. after a server move)
+   */
+  async relocate(
+    toUrl: string,
+    fromUrl?: string,
+    path?: string
+  ): Promise<SvnResponse<SvnSwitchResult>> {
+    try {
+      if (!validateSvnUrl(toUrl)) {
+        throw new SvnError(`Invalid SVN URL: ${toUrl}`);
+      }
+      if (fromUrl && !validateSvnUrl(fromUrl)) {
+        throw new SvnError(`Invalid SVN URL: ${fromUrl}`);
+      }
+
+      const args = ['relocate'];
+
+      if (fromUrl) {
+        args.push(fromUrl);
+      }
+
+      args.push(toUrl);
+
+      if (path) {
+        args.push(await this.resolvePath(path));
+      }
+
+      const before = await this.getInfo(path);
+      const response = await executeSvnCommand(this.config, args);
+      const after = await this.getInfo(path);
+
+      return {
+        success: true,
+        data: {
+          previousUrl: before.data!.url,
+          currentUrl: after.data!.url,
+          revision: after.data!.revision,
+          output: cleanOutput(response.data as string)
+        },
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      this.handleSvnError(error, 'relocate working copy');
+    }
+  }
+
+  /**
+   * List conflicted paths with their conflict kinds and auxiliary files
+   */
+  async getConflicts(path?: string): Promise<SvnResponse<SvnConflict[]>> {
+    try {
+      const args = ['status', '--xml'];
+
+      if (path) {
+        args.push(await this.resolvePath(path));
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+      const conflicts: SvnConflict[] = [];
+
+      for (const conflict of parseConflictStatus(cleanOutput(response.data as string))) {
+        try {
+          const info = await executeSvnCommand(this.config, ['info', '--xml', conflict.path]);
+          conflicts.push(parseConflictInfo(cleanOutput(info.data as string), conflict));
+        } catch (error: any) {
+          logger.debug(`Could not read conflict details for ${conflict.path}: ${error.message}`);
+          conflicts.push(conflict);
+        }
+      }
+
+      return {
+        success: true,
+        data: conflicts,
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      this.handleSvnError(error, 'list SVN conflicts');
+    }
+  }
+
+  /**
+   * Resolve conflicts on the given paths with one accept strategy
+   */
+  async resolve(
+    paths: string | string[],
+    options: SvnResolveOptions
+  ): Promise<SvnResponse<string>> {
+    try {
+      const pathArray = Array.isArray(paths) ? paths : [paths];
+
+      // Validate all paths
+      for (const path of pathArray) {
+        if (!validatePath(path)) {
+          throw new SvnError(`Invalid path: ${path}`);
+        }
+      }
+
+      const args = ['resolve', '--accept', options.accept];
+
+      if (options.recursive) {
+        args.push('--depth', 'infinity');
+      }
+
+      // Tree-conflicted paths may no longer exist on disk; resolvePath accepts them
+      args.push(...(await Promise.all(pathArray.map(p => this.resolvePath(p)))));
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      this.handleSvnError(error, 'resolve conflicts');
+    }
+  }
+
+  /**
+   * List versioned properties (or revision properties) with their values
+   */
+  async propList(target?: string, options: SvnPropertyOptions = {}): Promise<SvnResponse<SvnPropertyList[]>> {
+    try {
+      const args = ['proplist', '--xml', '--verbose'];
+      args.push(...this.buildPropertyArgs(options));
+
+      if (target) {
+        args.push(await this.resolveTarget(target));
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: parsePropListOutput(cleanOutput(response.data as string)),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'list SVN properties');
+    }
+  }
+
+  /**
+   * Get the value of a property on each target (recursive lists every path that has it)
+   */
+  async propGet(name: string, target?: string, options: SvnPropertyOptions = {}): Promise<SvnResponse<SvnProperty[]>> {
+    try {
+      const args = ['propget', '--xml'];
+      args.push(...this.buildPropertyArgs(options));
+      args.push(name);
+
+      if (target) {
+        args.push(await this.resolveTarget(target));
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+      const properties: SvnProperty[] = parsePropListOutput(cleanOutput(response.data as string))
+        .filter(list => name in list.properties)
+        .map(list => ({ name, value: list.properties[name], path: list.path }));
+
+      return {
+        success: true,
+        data: properties,
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, `get SVN property ${name}`);
+    }
+  }
+
+  /**
+   * Set a property. The value goes through a temporary file so multi-line
+   * values such as svn:ignore or svn:externals keep their line breaks
+   */
+  async propSet(name: string, value: string, target?: string, options: SvnPropertyOptions = {}): Promise<SvnResponse<string>> {
+    const valueFile = path.join(os.tmpdir(), `mcp-svn-prop-${process.pid}-${Date.now()}.txt`);
+    try {
+      fs.writeFileSync(valueFile, value, 'utf8');
+
+      const args = ['propset', name, '--file', valueFile];
+      args.push(...this.buildPropertyArgs(options));
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (target) {
+        args.push(await this.resolveTarget(target));
+      }
+
+      if (!options.revprop) {
+        await this.checkProtectedPaths([target || '']);
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, `set SVN property ${name}`);
+    } finally {
+      fs.rmSync(valueFile, { force: true });
+    }
+  }
+
+  /**
+   * Delete a property
+   */
+  async propDel(name: string, target?: string, options: SvnPropertyOptions = {}): Promise<SvnResponse<string>> {
+    try {
+      const args = ['propdel', name];
+      args.push(...this.buildPropertyArgs(options));
+
+      if (target) {
+        args.push(await this.resolveTarget(target));
+      }
+
+      if (!options.revprop) {
+        await this.checkProtectedPaths([target || '']);
+      }
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, `delete SVN property ${name}`);
+    }
+  }
+
+  /**
+   * Common arguments for the prop* commands
+   */
+  private buildPropertyArgs(options: SvnPropertyOptions): string[] {
+    const args: string[] = [];
+
+    if (options.revprop) {
+      if (options.revision === undefined) {
+        throw new SvnError('A revision is required to work with revision properties');
+      }
+      args.push('--revprop', '--revision', options.revision.toString());
+    } else if (options.recursive) {
+      args.push('--depth', 'infinity');
+    }
+
+    return args;
+  }
+
+  /**
+   * Lock files in the repository (needed before editing svn:needs-lock files)
+   */
+  async lock(paths: string | string[], options: SvnLockOptions = {}): Promise<SvnResponse<string>> {
+    try {
+      const pathArray = Array.isArray(paths) ? paths : [paths];
+      const args = ['lock'];
+
+      if (options.comment) {
+        args.push('--message', options.comment);
+      }
+
+      if (options.steal) {
+        args.push('--force');
+      }
+
+      args.push(...(await Promise.all(pathArray.map(p => this.resolveTarget(p)))));
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'lock files');
+    }
+  }
+
+  /**
+   * Release locks; force breaks a lock held by another user
+   */
+  async unlock(paths: string | string[], options: SvnUnlockOptions = {}): Promise<SvnResponse<string>> {
+    try {
+      const pathArray = Array.isArray(paths) ? paths : [paths];
+      const args = ['unlock'];
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      args.push(...(await Promise.all(pathArray.map(p => this.resolveTarget(p)))));
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'unlock files');
+    }
+  }
+
+  /**
+   * List every lock under a path, both the ones held by this working copy
+   * and the ones other users hold in the repository
+   */
+  async getLocks(path?: string): Promise<SvnResponse<SvnLockEntry[]>> {
+    try {
+      const args = ['status', '--show-updates', '--verbose', '--xml'];
+
+      if (path) {
+        args.push(await this.resolveTarget(path));
+      }
+
+      const statusResponse = await executeSvnCommand(this.config, args);
+      const statusList = parseStatusOutput(cleanOutput(statusResponse.data as string))
+        .filter(status => status.lock || status.remoteLock);
+
+      // svn info fills in details (comment, expiry) the status output may omit
+      let infoLocks: SvnLock[] = [];
+      if (statusList.length > 0) {
+        const infoResponse = await executeSvnCommand(this.config, ['info', '--xml', ...statusList.map(status => status.path)]);
+        infoLocks = parseLockInfo(cleanOutput(infoResponse.data as string));
+      }
+
+      return {
+        success: true,
+        data: collectLocks(statusList, infoLocks),
+        command: statusResponse.command,
+        workingDirectory: statusResponse.workingDirectory,
+        executionTime: statusResponse.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'list locks');
+    }
+  }
+
+  /**
+   * Gather info, status and branches in one call so a session can orient itself.
+   * totalFiles counts the paths svn status reports; includeSize also walks the
+   * working copy to add up its size on disk
+   */
+  async getWorkingCopySummary(includeSize: boolean = false): Promise<SvnResponse<SvnWorkingCopySummary>> {
+    const startTime = Date.now();
+    try {
+      const info = (await this.getInfo()).data!;
+      const status = (await this.getStatus()).data!;
+
+      // Branch discovery needs the standard trunk/branches/tags layout and server access
+      let branches: SvnBranch[] = [];
+      try {
+        branches = (await this.listBranches('branches', true)).data!;
+      } catch (error: any) {
+        logger.debug(`Summary without branches: ${error.message}`);
+      }
+
+      const summary: SvnWorkingCopySummary = {
+        info,
+        status,
+        branches,
+        ...summarizeStatus(status),
+        totalFiles: status.length
+      };
+
+      if (includeSize) {
+        summary.totalSize = await calculateDiskUsage(info.workingCopyRootPath || `${this.config.workingDirectory}`);
+      }
+
+      return {
+        success: true,
+        data: summary,
+        command: 'svn info + svn status + svn list',
+        workingDirectory: this.config.workingDirectory!,
+        executionTime: Date.now() - startTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'summarize the working copy');
+    }
+  }
+
+  /**
+   * Checkout a repository
+   */
+  async checkout(
+    url: string,
+    path?: string,
+    options: SvnCheckoutOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      if (!validateSvnUrl(url)) {
+        throw new SvnError(`Invalid SVN URL: ${url}`);
+      }
+
+      const args = ['checkout'];
+
+      if (options.revision) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.depth) {
+        args.push('--depth', options.depth);
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.ignoreExternals) {
+        args.push('--ignore-externals');
+      }
+
+      args.push(url);
+
+      // Without a path svn checks out into a folder named after the URL
+      const target = path ? await this.resolvePath(path, { allowMissing: true }) : url.replace(/\/+$/, '').split('/').pop()!;
+      if (path) {
+        args.push(target);
+      }
+
+      return await this.runWithProgress(args, options, target);
+
+    } catch (error: any) {
+      throw new SvnError(`Failed to checkout: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update working copy
+   */
+  async update(
+    path?: string,
+    options: SvnUpdateOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      const args = ['update'];
+
+      if (options.revision) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.ignoreExternals) {
+        args.push('--ignore-externals');
+      }
+
+      if (options.acceptConflicts) {
+        args.push('--accept', options.acceptConflicts);
+      }
+
+      const target = path ? await this.resolvePath(path) : '.';
+      if (path) {
+        args.push(target);
+      }
+
+      return await this.runWithProgress(args, options, target);
+
+    } catch (error: any) {
+      throw new SvnError(`Failed to update: ${error.message}`);
+    }
+  }
+
+  /**
+   * Run a long checkout/update/commit, reporting each item svn prints as progress.
+   * When the command is cancelled or times out the partial state is returned
+   * instead of an error: items processed so far and whether the working copy
+   * was left locked.
+   */
+  private async runWithProgress(args: string[], options: SvnProgressOptions, target: string): Promise<SvnResponse<string>> {
+    const startTime = Date.now();
+    const recent: SvnProgress[] = [];
+    let processed = 0;
+    let revision: number | undefined;
+
+    const onLine = (line: string) => {
+      revision = parseRevisionLine(line) ?? revision;
+      const item = parseNotificationLine(line);
+      if (!item) return;
+
+      processed++;
+      const progress = { processed, ...item };
+      recent.push(progress);
+      if (recent.length > 10) recent.shift();
+      options.onProgress?.(progress);
+    };
+
+    try {
+      const response = await executeSvnCommand(this.config, args, { signal: options.signal, onLine });
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      if (!(error instanceof SvnError) || !error.interrupted) {
+        throw error;
+      }
+
+      return {
+        success: false,
+        error: error.message,
+        data: cleanOutput(error.stdout || ''),
+        command: error.command || '',
+        workingDirectory: this.config.workingDirectory!,
+        executionTime: Date.now() - startTime,
+        interruption: {
+          reason: error.interrupted,
+          processed,
+          recent,
+          revision,
+          workingCopyLocked: await this.isWorkingCopyLocked(target)
+        }
+      };
+    }
+  }
+
+  /**
+   * Check whether an interrupted operation left the working copy locked
+   */
+  private async isWorkingCopyLocked(target: string): Promise<boolean | undefined> {
+    try {
+      const response = await executeSvnCommand(this.config, ['status', '--xml', '--depth', 'empty', target]);
+      const [entry] = parseStatusOutput(cleanOutput(response.data as string));
+      return entry?.workingCopyLocked ?? false;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Add files to version control
+   */
+  async add(
+    paths: string | string[],
+    options: SvnAddOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      const pathArray = Array.isArray(paths) ? paths : [paths];
+
+      // Validate all paths
+      for (const path of pathArray) {
+        if (!validatePath(path)) {
+          throw new SvnError(`Invalid path: ${path}`);
         }
-        args.push('--file', normalizedFile);
+      }
+
+      const args = ['add'];
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.noIgnore) {
+        args.push('--no-ignore');
+      }
+
+      if (options.autoProps) {
+        args.push('--auto-props');
+      }
+
+      if (options.noAutoProps) {
+        args.push('--no-auto-props');
+      }
+
+      if (options.parents) {
+        args.push('--parents');
+      }
+
+      // Unversioned files must exist on disk to be added
+      args.push(...(await Promise.all(pathArray.map(p => this.resolvePath(p, { mustExist: true })))));
+      await this.checkProtectedPaths(pathArray);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+
+    } catch (error: any) {
+      throw new SvnError(`Failed to add files: ${error.message}`);
+    }
+  }
+
+  /**
+   * Commit changes to the repository
+   */
+  async commit(
+    options: SvnCommitOptions,
+    paths?: string[]
+  ): Promise<SvnResponse<string>> {
+    try {
+      if (!options.message && !options.file) {
+        throw new SvnError('Commit message is required');
+      }
+
+      const args = ['commit'];
+
+      if (options.message) {
+        args.push('--message', options.message);
+      }
+
+      if (options.file) {
+        args.push('--file', await this.resolvePath(options.file, { mustExist: true }));
       }
 
       if (options.force) {
@@ -580,32 +1797,14 @@ export class SvnService {
             throw new SvnError(`Invalid path: ${path}`);
           }
         }
-        args.push(...paths.map(p => {
-          const normalizedPath = normalizePath(`${this.config.workingDirectory}`, p);
-          if (!normalizedPath) {
-            throw new SvnError(`Could not resolve path: ${p}`);
-          }
-          return normalizedPath;
-        }));
+        args.push(...(await Promise.all(paths.map(p => this.resolvePath(p)))));
       } else if (options.targets) {
-        args.push(...options.targets.map(p => {
-          const normalizedPath = normalizePath(`${this.config.workingDirectory}`, p);
-          if (!normalizedPath) {
-            throw new SvnError(`Could not resolve path: ${p}`);
-          }
-          return normalizedPath;
-        }));
+        args.push(...(await Promise.all(options.targets.map(p => this.resolvePath(p)))));
       }
 
-      const response = await executeSvnCommand(this.config, args);
+      await this.checkProtectedPaths(paths?.length ? paths : options.targets?.length ? options.targets : ['']);
 
-      return {
-        success: true,
-        data: cleanOutput(response.data as string),
-        command: response.command,
-        workingDirectory: response.workingDirectory,
-        executionTime: response.executionTime
-      };
+      return await this.runWithProgress(args, options, '.');
 
     } catch (error: any) {
       throw new SvnError(`Failed to commit: ${error.message}`);
@@ -613,7 +1812,8 @@ export class SvnService {
   }
 
   /**
-   * Delete files from version control
+   * Delete files from version control. Working copy paths are scheduled for
+   * deletion; URLs are removed from the repository at once and need a message
    */
   async delete(
     paths: string | string[],
@@ -624,11 +1824,19 @@ export class SvnService {
 
       // Validate all paths
       for (const path of pathArray) {
-        if (!validatePath(path)) {
+        if (!validateSvnUrl(path) && !validatePath(path)) {
           throw new SvnError(`Invalid path: ${path}`);
         }
       }
 
+      const urlCount = pathArray.filter(path => validateSvnUrl(path)).length;
+      if (urlCount > 0 && urlCount < pathArray.length) {
+        throw new SvnError('Cannot mix repository URLs and working copy paths in one delete');
+      }
+      if (urlCount > 0 && !options.message) {
+        throw new SvnError('Deleting a URL commits immediately and requires a message');
+      }
+
       const args = ['delete'];
 
       if (options.force) {
@@ -643,14 +1851,9 @@ export class SvnService {
         args.push('--message', options.message);
       }
 
-      // Add normalized paths
-      args.push(...pathArray.map(p => {
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, p);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${p}`);
-        }
-        return normalizedPath;
-      }));
+      // Add resolved paths
+      args.push(...(await Promise.all(pathArray.map(p => this.resolveTarget(p)))));
+      await this.checkProtectedPaths(pathArray);
 
       const response = await executeSvnCommand(this.config, args);
 
@@ -667,6 +1870,213 @@ export class SvnService {
     }
   }
 
+  /**
+   * Copy files or directories keeping their history. Works between working
+   * copy paths and repository URLs; a URL destination commits immediately
+   */
+  async copy(
+    sources: string | string[],
+    destination: string,
+    options: SvnCopyOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      const sourceArray = Array.isArray(sources) ? sources : [sources];
+      const target = this.resolveDestination(destination);
+
+      if (validateSvnUrl(target) && !options.message) {
+        throw new SvnError('A commit message is required when copying to a repository URL');
+      }
+
+      const args = ['copy'];
+
+      if (options.revision !== undefined) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.parents) {
+        args.push('--parents');
+      }
+
+      if (options.message) {
+        args.push('--message', options.message);
+      }
+
+      args.push(...(await Promise.all(sourceArray.map(source => this.resolveTarget(source)))), target);
+      await this.checkProtectedPaths([target]);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'copy');
+    }
+  }
+
+  /**
+   * Move or rename files or directories keeping their history (recorded as a
+   * copy plus delete of the original, not as an unrelated add)
+   */
+  async move(
+    sources: string | string[],
+    destination: string,
+    options: SvnMoveOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      const sourceArray = Array.isArray(sources) ? sources : [sources];
+      const target = this.resolveDestination(destination);
+      const urlMove = validateSvnUrl(target);
+
+      if (sourceArray.some(source => validateSvnUrl(source) !== urlMove)) {
+        throw new SvnError('Sources and destination must be all working copy paths or all repository URLs');
+      }
+
+      if (urlMove && !options.message) {
+        throw new SvnError('A commit message is required when moving in the repository');
+      }
+
+      const args = ['move'];
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.parents) {
+        args.push('--parents');
+      }
+
+      if (options.message) {
+        args.push('--message', options.message);
+      }
+
+      args.push(...(await Promise.all(sourceArray.map(source => this.resolveTarget(source)))), target);
+      await this.checkProtectedPaths([...sourceArray, target]);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'move');
+    }
+  }
+
+  /**
+   * Import an unversioned directory tree into a repository URL (commits immediately)
+   */
+  async import(
+    sourcePath: string,
+    url: string,
+    options: SvnImportOptions
+  ): Promise<SvnResponse<string>> {
+    try {
+      if (validateSvnUrl(sourcePath) || !validatePath(sourcePath)) {
+        throw new SvnError(`Invalid local path: ${sourcePath}`);
+      }
+      if (!validateSvnUrl(url)) {
+        throw new SvnError(`Invalid SVN URL: ${url}`);
+      }
+      if (!options.message) {
+        throw new SvnError('Import message is required');
+      }
+
+      const args = ['import', '--message', options.message];
+
+      if (options.noIgnore) {
+        args.push('--no-ignore');
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.noAutoProps) {
+        args.push('--no-auto-props');
+      } else if (options.autoProps) {
+        args.push('--auto-props');
+      }
+
+      args.push(sourcePath, url);
+      await this.checkProtectedPaths([url]);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'import');
+    }
+  }
+
+  /**
+   * Export a clean tree (no .svn metadata) from a URL or working copy into a
+   * target directory. Exporting a working copy without a revision includes
+   * its local modifications
+   */
+  async export(
+    source: string,
+    targetPath: string,
+    options: SvnExportOptions = {}
+  ): Promise<SvnResponse<string>> {
+    try {
+      if (validateSvnUrl(targetPath)) {
+        throw new SvnError(`Invalid local path: ${targetPath}`);
+      }
+
+      const args = ['export'];
+
+      if (options.revision !== undefined) {
+        args.push('--revision', options.revision.toString());
+      }
+
+      if (options.force) {
+        args.push('--force');
+      }
+
+      if (options.nativeEol) {
+        args.push('--native-eol', options.nativeEol);
+      }
+
+      if (options.ignoreExternals) {
+        args.push('--ignore-externals');
+      }
+
+      if (!validatePath(targetPath)) {
+        throw new SvnError(`Invalid local path: ${targetPath}`);
+      }
+
+      // The export target is a plain directory and may live anywhere, e.g. a release folder
+      args.push(await this.resolveTarget(source), targetPath);
+
+      const response = await executeSvnCommand(this.config, args);
+
+      return {
+        success: true,
+        data: cleanOutput(response.data as string),
+        command: response.command,
+        workingDirectory: response.workingDirectory,
+        executionTime: response.executionTime
+      };
+    } catch (error: any) {
+      this.handleSvnError(error, 'export');
+    }
+  }
+
   /**
    * Revert local changes
    */
@@ -676,6 +2086,9 @@ export class SvnService {
 
       // Validate all paths
       for (const path of pathArray) {
+        if (validateSvnUrl(path)) {
+          throw new SvnError(`Revert only works on working copy paths: ${path}`);
+        }
         if (!validatePath(path)) {
           throw new SvnError(`Invalid path: ${path}`);
         }
@@ -683,14 +2096,8 @@ export class SvnService {
 
       const args = ['revert'];
 
-      // Add normalized paths
-      args.push(...pathArray.map(p => {
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, p);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${p}`);
-        }
-        return normalizedPath;
-      }));
+      // Add resolved paths
+      args.push(...(await Promise.all(pathArray.map(p => this.resolvePath(p)))));
 
       const response = await executeSvnCommand(this.config, args);
 
@@ -707,6 +2114,150 @@ export class SvnService {
     }
   }
 
+  /**
+   * Run an ordered list of add/delete/move/copy/revert operations. All paths
+   * are validated before anything runs; on failure the batch stops or
+   * continues per options.onError, and options.rollback reverts the local
+   * changes already applied (URL operations are committed and cannot be undone)
+   */
+  async batch(
+    operations: SvnBatchOperation[],
+    options: SvnBatchOptions = {}
+  ): Promise<SvnResponse<SvnBatchSummary>> {
+    const startTime = Date.now();
+    const onError = options.onError || 'stop';
+
+    const issues = validateBatchOperations(operations);
+    const produced: string[] = [];
+    for (const [index, operation] of operations.entries()) {
+      if (issues.length > 0) break;
+      // Paths created by an earlier copy/move do not exist yet
+      const createdEarlier = produced.some(p => operation.source === p || operation.source.startsWith(`${p}/`));
+      if (!validateSvnUrl(operation.source) && !createdEarlier) {
+        try {
+          await this.resolveTarget(operation.source);
+        } catch (error: any) {
+          issues.push(`Operation ${index + 1} (${operation.type}): ${error.message}`);
+        }
+      }
+      if (operation.target) {
+        try {
+          this.resolveDestination(operation.target);
+        } catch (error: any) {
+          issues.push(`Operation ${index + 1} (${operation.type}): ${error.message}`);
+        }
+        produced.push(operation.target);
+      }
+    }
+    if (issues.length > 0) {
+      throw new SvnError(`Invalid batch, nothing was run:\n${issues.join('\n')}`);
+    }
+
+    const results: SvnBatchResult[] = [];
+    const applied: { result: SvnBatchResult; revertPaths: string[] }[] = [];
+    let stopped = false;
+
+    for (const operation of operations) {
+      if (stopped) {
+        results.push({ operation, success: false, skipped: true });
+        continue;
+      }
+
+      const revertPaths = this.batchRevertPaths(operation);
+      try {
+        const response = await this.runBatchOperation(operation);
+        const result: SvnBatchResult = { operation, success: true, result: response.data, command: response.command };
+        results.push(result);
+        applied.push({ result, revertPaths });
+      } catch (error: any) {
+        results.push({ operation, success: false, error: error.message });
+        stopped = onError === 'stop';
+      }
+    }
+
+    const failed = results.filter(result => !result.success && !result.skipped).length;
+    const rollbackErrors: string[] = [];
+    let rolledBack = false;
+
+    if (failed > 0 && options.rollback) {
+      rolledBack = true;
+      for (const { result, revertPaths } of applied.reverse()) {
+        if (revertPaths.length === 0) {
+          rollbackErrors.push(`${result.operation.type} ${result.operation.source}: cannot be rolled back`);
+          continue;
+        }
+        try {
+          await executeSvnCommand(this.config, ['revert', '--depth', 'infinity', ...revertPaths]);
+          result.rolledBack = true;
+        } catch (error: any) {
+          rollbackErrors.push(`${result.operation.type} ${result.operation.source}: ${error.message}`);
+        }
+      }
+    }
+
+    logger.info(`Batch of ${operations.length} operations: ${results.length - failed} ok, ${failed} failed, rollback: ${rolledBack}`);
+
+    return {
+      success: failed === 0,
+      data: {
+        results,
+        succeeded: results.filter(result => result.success).length,
+        failed,
+        skipped: results.filter(result => result.skipped).length,
+        rolledBack,
+        rollbackErrors
+      },
+      command: `batch (${operations.length} operations)`,
+      workingDirectory: this.config.workingDirectory!,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  private runBatchOperation(operation: SvnBatchOperation): Promise<SvnResponse<string>> {
+    switch (operation.type) {
+      case 'add':
+        return this.add(operation.source, operation.options);
+      case 'delete':
+        return this.delete(operation.source, operation.options);
+      case 'move':
+        return this.move(operation.source, operation.target!, operation.options);
+      case 'copy':
+        return this.copy(operation.source, operation.target!, operation.options);
+      case 'revert':
+        return this.revert(operation.source);
+    }
+  }
+
+  /**
+   * Working copy paths to revert to undo an operation (empty when it cannot be undone)
+   */
+  private batchRevertPaths(operation: SvnBatchOperation): string[] {
+    if (validateSvnUrl(operation.source) || (operation.target && validateSvnUrl(operation.target))) {
+      return [];
+    }
+
+    // Copying or moving onto an existing directory puts the source inside it
+    let target = operation.target;
+    if (target) {
+      const absoluteTarget = path.resolve(`${this.config.workingDirectory}`, target);
+      if (fs.existsSync(absoluteTarget) && fs.statSync(absoluteTarget).isDirectory()) {
+        target = path.join(target, path.basename(operation.source));
+      }
+    }
+
+    switch (operation.type) {
+      case 'add':
+      case 'delete':
+        return [operation.source];
+      case 'copy':
+        return [target!];
+      case 'move':
+        return [target!, operation.source];
+      default:
+        return [];
+    }
+  }
+
   /**
    * Cleanup working copy
    */
@@ -715,14 +2266,7 @@ export class SvnService {
       const args = ['cleanup'];
 
       if (path) {
-        if (!validatePath(path)) {
-          throw new SvnError(`Invalid path: ${path}`);
-        }
-        const normalizedPath = normalizePath(`${this.config.workingDirectory}`, path);
-        if (!normalizedPath) {
-          throw new SvnError(`Could not resolve path: ${path}`);
-        }
-        args.push(normalizedPath);
+        args.push(await this.resolvePath(path));
       }
 
       const response = await executeSvnCommand(this.config, args);
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SvnConfig, SvnError, SvnWorkingCopy } from '../common/types.js';
+import { createSvnConfig, discoverWorkingCopies, parseWorkingCopyList } from '../common/utils.js';
+import { logger } from '../common/logger.js';
+import { SvnService } from './svn-service.js';
+
+interface RegistryEntry {
+  name: string;
+  path: string;
+  source: SvnWorkingCopy['source'];
+  service?: SvnService;
+}
+
+/**
+ * Named working copies, each with its own SvnService. Entries come from
+ * SVN_WORKING_DIRECTORY ("default"), SVN_WORKING_COPIES, discovery under
+ * SVN_WORKING_COPIES_ROOT and svn_working_copy_add
+ */
+export class WorkingCopyRegistry {
+  private entries = new Map<string, RegistryEntry>();
+  private activeName: string;
+  private baseConfig: Partial<SvnConfig>;
+
+  constructor(config: Partial<SvnConfig> = {}) {
+    this.baseConfig = config;
+
+    const defaultPath = createSvnConfig(config).workingDirectory!;
+    this.register('default', defaultPath, 'default');
+
+    // A stale or malformed entry is skipped with a warning so the other working copies stay usable
+    const skip = (error: Error) => logger.warning(`Skipping working copy from SVN_WORKING_COPIES: ${error.message}`);
+    for (const [name, wcPath] of Object.entries(parseWorkingCopyList(process.env.SVN_WORKING_COPIES, skip))) {
+      try {
+        this.register(name, wcPath, 'config');
+      } catch (error: any) {
+        skip(error);
+      }
+    }
+
+    if (process.env.SVN_WORKING_COPIES_ROOT) {
+      this.discover(process.env.SVN_WORKING_COPIES_ROOT);
+    }
+
+    this.activeName = 'default';
+    if (process.env.SVN_DEFAULT_WORKING_COPY) {
+      try {
+        this.select(process.env.SVN_DEFAULT_WORKING_COPY);
+      } catch (error: any) {
+        logger.warning(`Keeping the default working copy selected: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Registered working copies. The root of each is looked up once per service
+   * and left empty when svn info fails (e.g. the checkout was removed)
+   */
+  async list(): Promise<SvnWorkingCopy[]> {
+    const workingCopies: SvnWorkingCopy[] = [];
+
+    for (const entry of this.entries.values()) {
+      let root: string | undefined;
+      try {
+        root = await this.getService(entry.name).getWorkingCopyRoot();
+      } catch {
+        root = undefined;
+      }
+      workingCopies.push({ ...this.describe(entry), root });
+    }
+
+    return workingCopies;
+  }
+
+  /**
+   * Register a working copy, checking with svn info that it really is one
+   */
+  async add(name: string, wcPath: string): Promise<SvnWorkingCopy> {
+    const entry = this.register(name, wcPath, 'added');
+    let root: string;
+    try {
+      root = await this.getService(name).getWorkingCopyRoot();
+    } catch (error: any) {
+      this.entries.delete(name);
+      throw new SvnError(`'${wcPath}' is not a usable working copy: ${error.message}`);
+    }
+    return { ...this.describe(entry), root };
+  }
+
+  /**
+   * Make a working copy the default for tools called without workingCopy
+   */
+  select(name: string): SvnWorkingCopy {
+    this.getEntry(name);
+    this.activeName = name;
+    return this.describe(this.getEntry(name));
+  }
+
+  /**
+   * Register the working copies found under a root directory; returns the new names
+   */
+  discover(root: string, maxDepth: number = 2): string[] {
+    const known = new Set([...this.entries.values()].map(entry => path.resolve(entry.path)));
+    const added: string[] = [];
+
+    for (const found of discoverWorkingCopies(root, maxDepth)) {
+      if (known.has(path.resolve(found.path)) || this.entries.has(found.name)) continue;
+      this.register(found.name, found.path, 'discovered');
+      added.push(found.name);
+    }
+
+    return added;
+  }
+
+  /**
+   * Service for a working copy (the active one when no name is given)
+   */
+  getService(name?: string): SvnService {
+    const entry = this.getEntry(name || this.activeName);
+    if (!entry.service) {
+      entry.service = new SvnService({ ...this.baseConfig, workingDirectory: entry.path });
+    }
+    return entry.service;
+  }
+
+  private describe(entry: RegistryEntry): SvnWorkingCopy {
+    return { name: entry.name, path: entry.path, source: entry.source, active: entry.name === this.activeName };
+  }
+
+  private getEntry(name: string): RegistryEntry {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new SvnError(`Unknown working copy '${name}'. Registered: ${[...this.entries.keys()].join(', ')}`);
+    }
+    return entry;
+  }
+
+  private register(name: string, wcPath: string, source: SvnWorkingCopy['source']): RegistryEntry {
+    if (!/^[\w.\/-]+$/.test(name)) {
+      throw new SvnError(`Invalid working copy name '${name}': use letters, digits, '.', '-', '_' or '/'`);
+    }
+    if (this.entries.has(name) && source === 'added') {
+      throw new SvnError(`A working copy named '${name}' is already registered`);
+    }
+
+    const resolvedPath = path.resolve(wcPath);
+    if (source !== 'default' && !fs.existsSync(resolvedPath)) {
+      throw new SvnError(`Working copy path does not exist: ${wcPath}`);
+    }
+
+    const entry: RegistryEntry = { name, path: resolvedPath, source };
+    this.entries.set(name, entry);
+    return entry;
+  }
+}